@@ -9,6 +9,10 @@ import Banks from "./pages/Banks";
 import NewBet from "./pages/NewBet";
 import DailyBets from "./pages/DailyBets";
 import History from "./pages/History";
+import Import from "./pages/Import";
+import Analytics from "./pages/Analytics";
+import Report from "./pages/Report";
+import Settings from "./pages/Settings";
 import NotFound from "./pages/NotFound";
 
 const queryClient = new QueryClient();
@@ -26,6 +30,10 @@ const App = () => (
           <Route path="/new-bet" element={<NewBet />} />
           <Route path="/daily-bets" element={<DailyBets />} />
           <Route path="/history" element={<History />} />
+          <Route path="/import" element={<Import />} />
+          <Route path="/analytics" element={<Analytics />} />
+          <Route path="/report" element={<Report />} />
+          <Route path="/settings" element={<Settings />} />
           {/* ADD ALL CUSTOM ROUTES ABOVE THE CATCH-ALL "*" ROUTE */}
           <Route path="*" element={<NotFound />} />
         </Routes>
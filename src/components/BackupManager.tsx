@@ -0,0 +1,204 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "./ui/alert-dialog";
+import { Download, Upload } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Backup, RestoreMode, createBackup, downloadBackup, parseBackup, restoreBackup } from "@/lib/backup";
+
+interface BackupManagerProps {
+  onRestored: () => void;
+}
+
+const BackupManager = ({ onRestored }: BackupManagerProps) => {
+  const { toast } = useToast();
+  const [exporting, setExporting] = useState(false);
+  const [backup, setBackup] = useState<Backup | null>(null);
+  const [fileName, setFileName] = useState("");
+  const [mode, setMode] = useState<RestoreMode>("merge");
+  const [confirmOpen, setConfirmOpen] = useState(false);
+  const [restoring, setRestoring] = useState(false);
+
+  const handleExport = async () => {
+    setExporting(true);
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return;
+
+      downloadBackup(await createBackup(session.user.id));
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Error al generar la copia de seguridad",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    try {
+      setBackup(parseBackup(await file.text()));
+      setFileName(file.name);
+      setMode("merge");
+    } catch (error) {
+      setBackup(null);
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message,
+      });
+    }
+  };
+
+  const handleRestore = async () => {
+    if (!backup) return;
+    setRestoring(true);
+
+    try {
+      await restoreBackup(backup, mode);
+
+      toast({
+        title: "Copia restaurada",
+        description: `Se han restaurado ${backup.banks.length} banks y ${backup.bets.length} apuestas`,
+      });
+
+      setBackup(null);
+      onRestored();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message || "Error al restaurar la copia de seguridad",
+      });
+    } finally {
+      setRestoring(false);
+      setConfirmOpen(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Copia de Seguridad</CardTitle>
+        <CardDescription>
+          Descarga todos tus datos en un archivo JSON o restaura una copia anterior
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          <Button onClick={handleExport} disabled={exporting}>
+            <Download className="h-4 w-4 mr-2" />
+            {exporting ? "Generando..." : "Descargar Copia"}
+          </Button>
+          <Button variant="outline" asChild>
+            <Label htmlFor="backup-file" className="cursor-pointer">
+              <Upload className="h-4 w-4 mr-2" />
+              Restaurar desde Archivo
+            </Label>
+          </Button>
+          <Input
+            id="backup-file"
+            type="file"
+            accept=".json,application/json"
+            className="hidden"
+            onChange={handleFileChange}
+          />
+        </div>
+
+        {backup && (
+          <div className="space-y-4 border-t pt-4">
+            <p className="text-sm text-muted-foreground">
+              {fileName}: copia del {new Date(backup.exported_at).toLocaleString()} con{" "}
+              {backup.banks.length} banks, {backup.bets.length} apuestas y{" "}
+              {backup.bank_transactions.length} movimientos
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="backup-mode">Modo de restauración</Label>
+              <Select value={mode} onValueChange={(value: RestoreMode) => setMode(value)}>
+                <SelectTrigger id="backup-mode" className="sm:w-80">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="merge">Añadir a mis datos actuales</SelectItem>
+                  <SelectItem value="replace">Reemplazar todos mis datos</SelectItem>
+                </SelectContent>
+              </Select>
+              <p className="text-xs text-muted-foreground">
+                {mode === "merge"
+                  ? "Los banks de la copia se crean junto a los actuales; deportes, mercados y etiquetas con el mismo nombre se reutilizan"
+                  : "Se eliminarán tus banks, apuestas, movimientos, taxonomía, etiquetas y tipos de cambio antes de restaurar"}
+              </p>
+            </div>
+            <div className="flex gap-2">
+              <Button
+                variant={mode === "replace" ? "destructive" : "default"}
+                onClick={() => setConfirmOpen(true)}
+                disabled={restoring}
+              >
+                {restoring ? "Restaurando..." : "Restaurar"}
+              </Button>
+              <Button variant="ghost" onClick={() => setBackup(null)} disabled={restoring}>
+                Cancelar
+              </Button>
+            </div>
+          </div>
+        )}
+      </CardContent>
+
+      <AlertDialog open={confirmOpen} onOpenChange={setConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>
+              {mode === "replace" ? "¿Reemplazar todos tus datos?" : "¿Añadir la copia a tus datos?"}
+            </AlertDialogTitle>
+            <AlertDialogDescription>
+              {mode === "replace"
+                ? "Tus datos actuales se eliminarán de forma permanente y se sustituirán por los de la copia. Esta acción no se puede deshacer."
+                : "Los banks y apuestas de la copia se añadirán a los que ya tienes. Si la copia es de esta misma cuenta, aparecerán duplicados."}
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel disabled={restoring}>Cancelar</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={(e) => {
+                e.preventDefault();
+                handleRestore();
+              }}
+              disabled={restoring}
+            >
+              {restoring ? "Restaurando..." : "Restaurar"}
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </Card>
+  );
+};
+
+export default BackupManager;
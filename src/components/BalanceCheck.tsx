@@ -0,0 +1,106 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Button } from "./ui/button";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "./ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { formatMoney } from "@/lib/currency";
+import { Database } from "@/integrations/supabase/types";
+
+type Discrepancy = Database["public"]["Functions"]["reconcile_bank_balances"]["Returns"][number];
+
+const BalanceCheck = () => {
+  const { toast } = useToast();
+  const [discrepancies, setDiscrepancies] = useState<Discrepancy[] | null>(null);
+  const [fixed, setFixed] = useState(false);
+  const [checking, setChecking] = useState(false);
+
+  // A check only reports; balances are rewritten once the user asks to fix them
+  const runCheck = async (fix: boolean) => {
+    setChecking(true);
+
+    try {
+      const { data, error } = await supabase.rpc("reconcile_bank_balances", { p_fix: fix });
+
+      if (error) throw error;
+
+      setDiscrepancies(data || []);
+      setFixed(fix);
+      if (fix) {
+        toast({
+          title: "Balances corregidos",
+          description: "Los balances descuadrados se han recalculado",
+        });
+      }
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: fix ? "Error al corregir los balances" : "Error al revisar los balances",
+      });
+    } finally {
+      setChecking(false);
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Revisar Balances</CardTitle>
+        <CardDescription>
+          Recalcula el balance de cada bank desde su balance inicial, las apuestas y los
+          movimientos, y muestra los que no cuadren para que puedas corregirlos
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="flex flex-wrap gap-2">
+          <Button onClick={() => runCheck(false)} disabled={checking}>
+            {checking ? "Revisando..." : "Revisar Balances"}
+          </Button>
+          {!fixed && discrepancies && discrepancies.length > 0 && (
+            <Button variant="outline" onClick={() => runCheck(true)} disabled={checking}>
+              Corregir Balances
+            </Button>
+          )}
+        </div>
+
+        {discrepancies !== null &&
+          (discrepancies.length === 0 ? (
+            <p className="text-sm text-muted-foreground">Todos los balances cuadran</p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead>Bank</TableHead>
+                  <TableHead className="text-right">Guardado</TableHead>
+                  <TableHead className="text-right">{fixed ? "Corregido" : "Calculado"}</TableHead>
+                  <TableHead className="text-right">Diferencia</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {discrepancies.map((row) => (
+                  <TableRow key={row.bank_id}>
+                    <TableCell className="font-medium">{row.bank_name}</TableCell>
+                    <TableCell className="text-right">{formatMoney(row.stored_balance, row.currency)}</TableCell>
+                    <TableCell className="text-right">{formatMoney(row.computed_balance, row.currency)}</TableCell>
+                    <TableCell className={`text-right ${row.difference >= 0 ? "text-success" : "text-danger"}`}>
+                      {formatMoney(row.difference, row.currency, { signed: true })}
+                    </TableCell>
+                  </TableRow>
+                ))}
+              </TableBody>
+            </Table>
+          ))}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BalanceCheck;
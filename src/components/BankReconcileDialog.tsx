@@ -0,0 +1,220 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { formatMoney } from "@/lib/currency";
+
+interface Reconciliation {
+  id: string;
+  tracked_balance: number;
+  real_balance: number;
+  difference: number;
+  reason: string | null;
+  created_at: string;
+}
+
+interface BankReconcileDialogProps {
+  bank: { id: string; name: string; currency: string; current_balance: number } | null;
+  onOpenChange: (open: boolean) => void;
+  onReconciled: () => void;
+}
+
+const BankReconcileDialog = ({ bank, onOpenChange, onReconciled }: BankReconcileDialogProps) => {
+  const { toast } = useToast();
+  const [reconciliations, setReconciliations] = useState<Reconciliation[]>([]);
+  const [realBalance, setRealBalance] = useState("");
+  const [reason, setReason] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (bank) {
+      setRealBalance("");
+      setReason("");
+      fetchReconciliations(bank.id);
+    }
+  }, [bank]);
+
+  const fetchReconciliations = async (bankId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from("bank_reconciliations")
+        .select("id, tracked_balance, real_balance, difference, reason, created_at")
+        .eq("bank_id", bankId)
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      setReconciliations(data || []);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Error al cargar las conciliaciones",
+      });
+    }
+  };
+
+  const real = parseFloat(realBalance);
+  const difference = bank && !isNaN(real) ? Math.round((real - bank.current_balance) * 100) / 100 : null;
+
+  const handleReconcile = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!bank || difference === null) return;
+
+    if (difference !== 0 && !reason.trim()) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Indica el motivo del ajuste",
+      });
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const { error } = await supabase.rpc("reconcile_bank", {
+        p_bank_id: bank.id,
+        p_real_balance: real,
+        p_reason: reason.trim() || undefined,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Bank conciliado",
+        description:
+          difference === 0
+            ? `El balance de ${bank.name} cuadra con la casa de apuestas`
+            : `Ajuste de ${formatMoney(difference, bank.currency, { signed: true })} registrado en ${bank.name}`,
+      });
+
+      setRealBalance("");
+      setReason("");
+      fetchReconciliations(bank.id);
+      onReconciled();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message || "Error al conciliar el bank",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!bank} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Conciliar {bank?.name}</DialogTitle>
+          <DialogDescription>
+            Compara el balance registrado con el que muestra la casa de apuestas y ajusta la
+            diferencia
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleReconcile} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label>Balance Registrado</Label>
+              <p className="h-10 flex items-center font-semibold">
+                {bank && formatMoney(bank.current_balance, bank.currency)}
+              </p>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="reconcile-real">Balance Real</Label>
+              <Input
+                id="reconcile-real"
+                type="number"
+                step="0.01"
+                placeholder="0.00"
+                value={realBalance}
+                onChange={(e) => setRealBalance(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+
+          {difference !== null && (
+            <div className="flex items-center justify-between rounded-lg bg-muted p-3 text-sm">
+              <span className="text-muted-foreground">Diferencia</span>
+              <span
+                className={`font-semibold ${
+                  difference === 0 ? "" : difference > 0 ? "text-success" : "text-danger"
+                }`}
+              >
+                {difference === 0
+                  ? "El balance cuadra"
+                  : formatMoney(difference, bank?.currency, { signed: true })}
+              </span>
+            </div>
+          )}
+
+          {difference !== null && difference !== 0 && (
+            <div className="space-y-2">
+              <Label htmlFor="reconcile-reason">Motivo del Ajuste</Label>
+              <Input
+                id="reconcile-reason"
+                placeholder="Ej: Apuesta no registrada, redondeos..."
+                value={reason}
+                onChange={(e) => setReason(e.target.value)}
+                required
+              />
+            </div>
+          )}
+
+          <Button type="submit" className="w-full" disabled={loading || difference === null}>
+            {loading ? "Guardando..." : difference ? "Registrar Ajuste" : "Conciliar"}
+          </Button>
+        </form>
+
+        <div className="max-h-64 overflow-y-auto space-y-2 border-t pt-4">
+          {reconciliations.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              No hay conciliaciones registradas
+            </p>
+          ) : (
+            reconciliations.map((reconciliation) => (
+              <div key={reconciliation.id} className="flex items-center justify-between gap-2 text-sm">
+                <div>
+                  <p className="font-medium">
+                    {formatMoney(reconciliation.tracked_balance, bank?.currency)} →{" "}
+                    {formatMoney(reconciliation.real_balance, bank?.currency)}
+                  </p>
+                  <p className="text-xs text-muted-foreground">
+                    {new Date(reconciliation.created_at).toLocaleDateString()}
+                    {reconciliation.reason && ` • ${reconciliation.reason}`}
+                  </p>
+                </div>
+                <span
+                  className={`font-semibold ${
+                    reconciliation.difference === 0
+                      ? "text-muted-foreground"
+                      : reconciliation.difference > 0
+                        ? "text-success"
+                        : "text-danger"
+                  }`}
+                >
+                  {reconciliation.difference === 0
+                    ? "Cuadra"
+                    : formatMoney(reconciliation.difference, bank?.currency, { signed: true })}
+                </span>
+              </div>
+            ))
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BankReconcileDialog;
@@ -0,0 +1,261 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import {
+  BankTransaction,
+  BankTransactionType,
+  MANUAL_TRANSACTION_TYPES,
+  TRANSACTION_TYPE_LABELS,
+  isTransfer,
+  signedTransactionAmount,
+} from "@/lib/transactions";
+import { formatMoney } from "@/lib/currency";
+
+type TransactionRow = BankTransaction & { counterparty: { name: string } | null };
+
+interface BankTransactionsDialogProps {
+  bank: { id: string; name: string; currency: string } | null;
+  onOpenChange: (open: boolean) => void;
+  onChanged: () => void;
+}
+
+const BankTransactionsDialog = ({ bank, onOpenChange, onChanged }: BankTransactionsDialogProps) => {
+  const { toast } = useToast();
+  const [transactions, setTransactions] = useState<TransactionRow[]>([]);
+  const [type, setType] = useState<BankTransactionType>("deposit");
+  const [amount, setAmount] = useState("");
+  const [description, setDescription] = useState("");
+  const [transactionDate, setTransactionDate] = useState(new Date().toISOString().split("T")[0]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (bank) {
+      fetchTransactions(bank.id);
+    }
+  }, [bank]);
+
+  const fetchTransactions = async (bankId: string) => {
+    try {
+      const { data, error } = await supabase
+        .from("bank_transactions")
+        .select("*, counterparty:banks!bank_transactions_counterparty_bank_id_fkey(name)")
+        .eq("bank_id", bankId)
+        .order("transaction_date", { ascending: false })
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      setTransactions(data || []);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Error al cargar los movimientos",
+      });
+    }
+  };
+
+  const handleCreateTransaction = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!bank) return;
+
+    const value = parseFloat(amount);
+    if (isNaN(value) || value === 0 || (type !== "adjustment" && value < 0)) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description:
+          type === "adjustment"
+            ? "El ajuste debe ser distinto de cero"
+            : "El importe debe ser un número positivo",
+      });
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return;
+
+      const { error } = await supabase.from("bank_transactions").insert({
+        user_id: session.user.id,
+        bank_id: bank.id,
+        type,
+        amount: value,
+        description: description || null,
+        transaction_date: transactionDate,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Movimiento registrado",
+        description: `${TRANSACTION_TYPE_LABELS[type]} añadido a ${bank.name}`,
+      });
+
+      setAmount("");
+      setDescription("");
+      fetchTransactions(bank.id);
+      onChanged();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Error al registrar el movimiento",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleDeleteTransaction = async (transaction: TransactionRow) => {
+    if (!bank) return;
+
+    try {
+      // Deleting a transfer also removes its other half in the counterparty bank
+      const { error } = transaction.transfer_id
+        ? await supabase.from("bank_transactions").delete().eq("transfer_id", transaction.transfer_id)
+        : await supabase.from("bank_transactions").delete().eq("id", transaction.id);
+
+      if (error) throw error;
+
+      fetchTransactions(bank.id);
+      onChanged();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Error al eliminar el movimiento",
+      });
+    }
+  };
+
+  return (
+    <Dialog open={!!bank} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Movimientos de {bank?.name}</DialogTitle>
+          <DialogDescription>
+            Depósitos, retiradas, bonos y comisiones ajustan el balance sin afectar al ROI
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleCreateTransaction} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="transaction-type">Tipo</Label>
+              <Select value={type} onValueChange={(value: BankTransactionType) => setType(value)}>
+                <SelectTrigger id="transaction-type">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {MANUAL_TRANSACTION_TYPES.map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {TRANSACTION_TYPE_LABELS[value]}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="transaction-amount">Importe</Label>
+              <Input
+                id="transaction-amount"
+                type="number"
+                step="0.01"
+                placeholder={type === "adjustment" ? "-10.00" : "100.00"}
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="transaction-date">Fecha</Label>
+              <Input
+                id="transaction-date"
+                type="date"
+                value={transactionDate}
+                onChange={(e) => setTransactionDate(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="transaction-description">Nota (Opcional)</Label>
+              <Input
+                id="transaction-description"
+                value={description}
+                onChange={(e) => setDescription(e.target.value)}
+              />
+            </div>
+          </div>
+          <Button type="submit" className="w-full" disabled={loading}>
+            {loading ? "Guardando..." : "Añadir Movimiento"}
+          </Button>
+        </form>
+
+        <div className="max-h-64 overflow-y-auto space-y-2 border-t pt-4">
+          {transactions.length === 0 ? (
+            <p className="text-sm text-muted-foreground text-center py-4">
+              No hay movimientos registrados
+            </p>
+          ) : (
+            transactions.map((transaction) => {
+              const signed = signedTransactionAmount(transaction);
+              return (
+                <div key={transaction.id} className="flex items-center justify-between gap-2 text-sm">
+                  <div>
+                    <p className="font-medium">
+                      {isTransfer(transaction.type)
+                        ? `Transferencia ${transaction.type === "transfer_out" ? "a" : "desde"} ${
+                            transaction.counterparty?.name || "bank eliminado"
+                          }`
+                        : TRANSACTION_TYPE_LABELS[transaction.type]}
+                    </p>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(transaction.transaction_date + "T00:00:00").toLocaleDateString()}
+                      {transaction.description && ` • ${transaction.description}`}
+                    </p>
+                  </div>
+                  <div className="flex items-center gap-2">
+                    <span className={`font-semibold ${signed >= 0 ? "text-success" : "text-danger"}`}>
+                      {formatMoney(signed, bank?.currency, { signed: true })}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive hover:text-destructive"
+                      onClick={() => handleDeleteTransaction(transaction)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              );
+            })
+          )}
+        </div>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BankTransactionsDialog;
@@ -0,0 +1,217 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { useToast } from "@/hooks/use-toast";
+
+interface BankTransferDialogProps {
+  banks: { id: string; name: string; currency: string }[];
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  onTransferred: () => void;
+}
+
+const BankTransferDialog = ({ banks, open, onOpenChange, onTransferred }: BankTransferDialogProps) => {
+  const { toast } = useToast();
+  const [fromBankId, setFromBankId] = useState("");
+  const [toBankId, setToBankId] = useState("");
+  const [amount, setAmount] = useState("");
+  const [receivedAmount, setReceivedAmount] = useState("");
+  const [description, setDescription] = useState("");
+  const [transactionDate, setTransactionDate] = useState(new Date().toISOString().split("T")[0]);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setFromBankId(banks[0]?.id || "");
+      setToBankId(banks[1]?.id || "");
+      setAmount("");
+      setReceivedAmount("");
+      setDescription("");
+    }
+  }, [open, banks]);
+
+  const fromCurrency = banks.find((bank) => bank.id === fromBankId)?.currency;
+  const toCurrency = banks.find((bank) => bank.id === toBankId)?.currency;
+  const crossCurrency = !!fromCurrency && !!toCurrency && fromCurrency !== toCurrency;
+
+  const handleTransfer = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const value = parseFloat(amount);
+    if (isNaN(value) || value <= 0) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "El importe debe ser un número positivo",
+      });
+      return;
+    }
+
+    const toValue = crossCurrency ? parseFloat(receivedAmount) : value;
+    if (isNaN(toValue) || toValue <= 0) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "El importe recibido debe ser un número positivo",
+      });
+      return;
+    }
+
+    if (!fromBankId || !toBankId || fromBankId === toBankId) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Selecciona dos banks distintos",
+      });
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const { error } = await supabase.rpc("transfer_between_banks", {
+        p_from_bank_id: fromBankId,
+        p_to_bank_id: toBankId,
+        p_amount: value,
+        p_to_amount: crossCurrency ? toValue : undefined,
+        p_transaction_date: transactionDate,
+        p_description: description || undefined,
+      });
+
+      if (error) throw error;
+
+      toast({
+        title: "Transferencia registrada",
+        description: "Los balances de ambos banks se han actualizado",
+      });
+
+      onOpenChange(false);
+      onTransferred();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message || "Error al registrar la transferencia",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Transferir entre Banks</DialogTitle>
+          <DialogDescription>
+            Registra una retirada en un bank y el depósito correspondiente en otro
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleTransfer} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="transfer-from">Desde</Label>
+              <Select value={fromBankId} onValueChange={setFromBankId}>
+                <SelectTrigger id="transfer-from">
+                  <SelectValue placeholder="Seleccionar bank" />
+                </SelectTrigger>
+                <SelectContent>
+                  {banks.map((bank) => (
+                    <SelectItem key={bank.id} value={bank.id}>
+                      {bank.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="transfer-to">Hacia</Label>
+              <Select value={toBankId} onValueChange={setToBankId}>
+                <SelectTrigger id="transfer-to">
+                  <SelectValue placeholder="Seleccionar bank" />
+                </SelectTrigger>
+                <SelectContent>
+                  {banks.map((bank) => (
+                    <SelectItem key={bank.id} value={bank.id} disabled={bank.id === fromBankId}>
+                      {bank.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="transfer-amount">Importe{crossCurrency && ` (${fromCurrency})`}</Label>
+              <Input
+                id="transfer-amount"
+                type="number"
+                step="0.01"
+                placeholder="100.00"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="transfer-date">Fecha</Label>
+              <Input
+                id="transfer-date"
+                type="date"
+                value={transactionDate}
+                onChange={(e) => setTransactionDate(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+          {crossCurrency && (
+            <div className="space-y-2">
+              <Label htmlFor="transfer-received">Importe Recibido ({toCurrency})</Label>
+              <Input
+                id="transfer-received"
+                type="number"
+                step="0.01"
+                placeholder="100.00"
+                value={receivedAmount}
+                onChange={(e) => setReceivedAmount(e.target.value)}
+                required
+              />
+              <p className="text-xs text-muted-foreground">
+                Los banks usan monedas distintas: indica cuánto llega al bank de destino
+              </p>
+            </div>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="transfer-description">Nota (Opcional)</Label>
+            <Input
+              id="transfer-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+            />
+          </div>
+          <Button type="submit" className="w-full" disabled={loading}>
+            {loading ? "Guardando..." : "Transferir"}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default BankTransferDialog;
@@ -0,0 +1,227 @@
+import { useEffect, useState } from "react";
+import { CartesianGrid, Line, LineChart, ReferenceDot, XAxis, YAxis } from "recharts";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "./ui/chart";
+import { ToggleGroup, ToggleGroupItem } from "./ui/toggle-group";
+import { useToast } from "@/hooks/use-toast";
+import { BankTransactionType, signedTransactionAmount } from "@/lib/transactions";
+import { ExchangeRate, convertAmount, formatMoney } from "@/lib/currency";
+import { fetchAllPages } from "@/lib/pagination";
+import {
+  CHART_RANGES,
+  ChartRange,
+  buildBalanceSeries,
+  rangeStartDate,
+  sliceSeries,
+} from "@/lib/bankroll";
+
+interface ChartBank {
+  id: string;
+  currency: string;
+  initial_balance: number;
+}
+
+interface ChartBet {
+  id: string;
+  bank_id: string;
+  profit: number | null;
+  description: string | null;
+  bet_date: string;
+}
+
+interface ChartMovement {
+  bank_id: string;
+  type: BankTransactionType;
+  amount: number;
+  transaction_date: string;
+}
+
+interface BankrollChartProps {
+  banks: ChartBank[];
+  currency: string;
+  rates: ExchangeRate[];
+}
+
+const MARKERS_PER_SIDE = 3;
+
+const chartConfig = {
+  balance: { label: "Balance", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const formatDay = (date: string) =>
+  new Date(date + "T00:00:00").toLocaleDateString(undefined, { day: "numeric", month: "short" });
+
+const BankrollChart = ({ banks, currency, rates }: BankrollChartProps) => {
+  const { toast } = useToast();
+  const [range, setRange] = useState<ChartRange>("30d");
+  const [bets, setBets] = useState<ChartBet[]>([]);
+  const [movements, setMovements] = useState<ChartMovement[]>([]);
+
+  const bankIds = banks.map((bank) => bank.id).join(",");
+
+  useEffect(() => {
+    if (bankIds) {
+      fetchHistory(bankIds.split(","));
+    }
+  }, [bankIds]);
+
+  const fetchHistory = async (ids: string[]) => {
+    try {
+      const [betRows, movementRows] = await Promise.all([
+        fetchAllPages((from, to) =>
+          supabase
+            .from("bets")
+            .select("id, bank_id, profit, description, bet_date")
+            .in("bank_id", ids)
+            .order("id")
+            .range(from, to),
+        ),
+        fetchAllPages((from, to) =>
+          supabase
+            .from("bank_transactions")
+            .select("bank_id, type, amount, transaction_date")
+            .in("bank_id", ids)
+            .order("id")
+            .range(from, to),
+        ),
+      ]);
+
+      setBets(betRows);
+      setMovements(movementRows);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Error al cargar la evolución del balance",
+      });
+    }
+  };
+
+  // Banks in a currency without an exchange rate are left out of the curve entirely
+  const missingCurrencies = [
+    ...new Set(
+      banks
+        .filter((bank) => convertAmount(0, bank.currency, currency, rates) === null)
+        .map((bank) => bank.currency),
+    ),
+  ];
+  const currencyOf = (bankId: string) => banks.find((bank) => bank.id === bankId)?.currency || currency;
+  const isCharted = (bankId: string) => !missingCurrencies.includes(currencyOf(bankId));
+  const convert = (amount: number, bankId: string) =>
+    convertAmount(amount, currencyOf(bankId), currency, rates) ?? 0;
+
+  const startingBalance = banks
+    .filter((bank) => isCharted(bank.id))
+    .reduce((acc, bank) => acc + convert(bank.initial_balance, bank.id), 0);
+
+  // Only bets that already moved money count: settled ones and cashed-out parts of open ones
+  const betEvents = bets
+    .filter((bet) => bet.profit && isCharted(bet.bank_id))
+    .map((bet) => ({ ...bet, date: bet.bet_date, amount: convert(bet.profit || 0, bet.bank_id) }));
+  const movementEvents = movements
+    .filter((movement) => isCharted(movement.bank_id))
+    .map((movement) => ({
+      date: movement.transaction_date,
+      amount: convert(signedTransactionAmount(movement), movement.bank_id),
+    }));
+
+  const start = rangeStartDate(range);
+  const series = sliceSeries(
+    buildBalanceSeries(startingBalance, [...betEvents, ...movementEvents]),
+    startingBalance,
+    start,
+  );
+
+  const betsInRange = betEvents
+    .filter((bet) => !start || bet.date >= start)
+    .sort((a, b) => b.amount - a.amount);
+  const markers = [
+    ...betsInRange.filter((bet) => bet.amount > 0).slice(0, MARKERS_PER_SIDE),
+    ...betsInRange.filter((bet) => bet.amount < 0).slice(-MARKERS_PER_SIDE),
+  ];
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col sm:flex-row sm:items-center justify-between gap-2">
+        <CardTitle>Evolución del Balance</CardTitle>
+        <ToggleGroup
+          type="single"
+          size="sm"
+          value={range}
+          onValueChange={(value) => value && setRange(value as ChartRange)}
+        >
+          {CHART_RANGES.map((option) => (
+            <ToggleGroupItem key={option.value} value={option.value}>
+              {option.label}
+            </ToggleGroupItem>
+          ))}
+        </ToggleGroup>
+      </CardHeader>
+      <CardContent>
+        {series.length < 2 ? (
+          <p className="text-sm text-muted-foreground text-center py-12">
+            No hay suficientes movimientos en este periodo
+          </p>
+        ) : (
+          <ChartContainer config={chartConfig} className="aspect-auto h-72 w-full">
+            <LineChart data={series} margin={{ left: 12, right: 12 }}>
+              <CartesianGrid vertical={false} />
+              <XAxis dataKey="date" tickLine={false} axisLine={false} minTickGap={32} tickFormatter={formatDay} />
+              <YAxis
+                tickLine={false}
+                axisLine={false}
+                width={80}
+                tickFormatter={(value: number) => formatMoney(value, currency)}
+              />
+              <ChartTooltip
+                content={
+                  <ChartTooltipContent
+                    labelFormatter={(_, payload) => formatDay(payload[0]?.payload.date)}
+                    formatter={(value) => formatMoney(value as number, currency)}
+                  />
+                }
+              />
+              <Line
+                dataKey="balance"
+                type="monotone"
+                stroke="var(--color-balance)"
+                strokeWidth={2}
+                dot={false}
+              />
+              {markers.map((bet) => (
+                <ReferenceDot
+                  key={bet.id}
+                  x={bet.date}
+                  y={series.find((point) => point.date === bet.date)?.balance}
+                  r={5}
+                  fill={bet.amount > 0 ? "hsl(var(--success))" : "hsl(var(--danger))"}
+                  stroke="none"
+                />
+              ))}
+            </LineChart>
+          </ChartContainer>
+        )}
+        {markers.length > 0 && (
+          <div className="flex flex-wrap gap-x-4 gap-y-1 mt-4 text-xs text-muted-foreground">
+            {markers.map((bet) => (
+              <span key={bet.id}>
+                <span className={bet.amount > 0 ? "text-success" : "text-danger"}>●</span>{" "}
+                {formatDay(bet.date)} {bet.description || "Apuesta"}:{" "}
+                {formatMoney(bet.amount, currency, { signed: true })}
+              </span>
+            ))}
+          </div>
+        )}
+        {missingCurrencies.length > 0 && (
+          <p className="text-xs text-warning mt-2">
+            Sin tipo de cambio a {currency} para {missingCurrencies.join(", ")}; esos banks no se
+            incluyen en la gráfica.
+          </p>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default BankrollChart;
@@ -0,0 +1,71 @@
+import { useState } from "react";
+import { Button } from "./ui/button";
+import { Collapsible, CollapsibleContent, CollapsibleTrigger } from "./ui/collapsible";
+import { ChevronDown, ChevronUp } from "lucide-react";
+import {
+  BET_STATUS_LABELS,
+  BetCombination,
+  BetLeg,
+  isLosingStatus,
+  isWinningStatus,
+  legReturnFactor,
+} from "@/lib/bets";
+import { formatMoney } from "@/lib/currency";
+import { DEFAULT_ODDS_FORMAT, OddsFormat, formatOdds } from "@/lib/odds";
+
+interface BetCombinationsListProps {
+  combinations: BetCombination[];
+  legs: BetLeg[];
+  currency: string;
+  oddsFormat?: OddsFormat;
+}
+
+const BetCombinationsList = ({
+  combinations,
+  legs,
+  currency,
+  oddsFormat = DEFAULT_ODDS_FORMAT,
+}: BetCombinationsListProps) => {
+  const [open, setOpen] = useState(false);
+  const legsById = new Map(legs.map((leg) => [leg.id, leg]));
+
+  const won = combinations.filter((combo) => isWinningStatus(combo.status)).length;
+  const lost = combinations.filter((combo) => isLosingStatus(combo.status)).length;
+  const pending = combinations.filter((combo) => combo.status === "open").length;
+
+  const comboReturn = (combo: BetCombination) =>
+    combo.leg_ids.reduce((acc, legId) => {
+      const leg = legsById.get(legId);
+      return leg ? acc * legReturnFactor(leg) : acc;
+    }, combo.stake);
+
+  return (
+    <Collapsible open={open} onOpenChange={setOpen} className="mb-2">
+      <CollapsibleTrigger asChild>
+        <Button variant="ghost" size="sm" className="px-2 text-xs text-muted-foreground">
+          {combinations.length} combinaciones · {won} ganadas · {lost} perdidas · {pending} abiertas
+          {open ? <ChevronUp className="ml-1 h-3 w-3" /> : <ChevronDown className="ml-1 h-3 w-3" />}
+        </Button>
+      </CollapsibleTrigger>
+      <CollapsibleContent className="space-y-1 px-2">
+        {combinations.map((combo) => (
+          <div key={combo.id} className="flex justify-between text-xs text-muted-foreground">
+            <span>
+              {combo.leg_ids
+                .map((legId) => (legsById.get(legId)?.position ?? 0) + 1)
+                .sort((a, b) => a - b)
+                .join(" + ")}{" "}
+              @ {formatOdds(combo.odds, oddsFormat)}
+            </span>
+            <span>
+              {BET_STATUS_LABELS[combo.status]}
+              {combo.status !== "open" && ` · ${formatMoney(comboReturn(combo), currency)}`}
+            </span>
+          </div>
+        ))}
+      </CollapsibleContent>
+    </Collapsible>
+  );
+};
+
+export default BetCombinationsList;
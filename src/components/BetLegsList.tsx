@@ -0,0 +1,84 @@
+import { supabase } from "@/integrations/supabase/client";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { BET_STATUS_LABELS, BetLeg, BetStatus, LEG_STATUSES, sortLegs } from "@/lib/bets";
+import { DEFAULT_ODDS_FORMAT, OddsFormat, formatOdds } from "@/lib/odds";
+
+interface BetLegsListProps {
+  legs: BetLeg[];
+  onLegUpdated: () => void;
+  readOnly?: boolean;
+  oddsFormat?: OddsFormat;
+}
+
+const BetLegsList = ({
+  legs,
+  onLegUpdated,
+  readOnly = false,
+  oddsFormat = DEFAULT_ODDS_FORMAT,
+}: BetLegsListProps) => {
+  const { toast } = useToast();
+
+  const updateLegStatus = async (legId: string, newStatus: BetStatus) => {
+    try {
+      const { error } = await supabase
+        .from("bet_legs")
+        .update({ status: newStatus })
+        .eq("id", legId);
+
+      if (error) throw error;
+
+      onLegUpdated();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Error al actualizar la selección",
+      });
+    }
+  };
+
+  return (
+    <div className="space-y-2 mb-2">
+      {sortLegs(legs).map((leg) => (
+        <div
+          key={leg.id}
+          className="flex flex-col sm:flex-row sm:items-center justify-between gap-2 rounded-md bg-muted/40 px-3 py-2"
+        >
+          <div className="text-sm">
+            <span className="font-medium">{leg.event}</span>
+            <span className="text-muted-foreground">
+              {" "}• {leg.selection} @ {formatOdds(leg.odds, oddsFormat)}
+            </span>
+          </div>
+          <div className="w-full sm:w-40">
+            <Select
+              value={leg.status}
+              onValueChange={(value) => updateLegStatus(leg.id, value as BetStatus)}
+              disabled={readOnly}
+            >
+              <SelectTrigger className="h-7 text-xs">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LEG_STATUSES.map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {BET_STATUS_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default BetLegsList;
@@ -0,0 +1,76 @@
+import { useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
+import { Tag as TagIcon } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import TagPicker from "./TagPicker";
+import { Tag, setBetTags } from "@/lib/tags";
+
+interface BetTagsEditorProps {
+  betId: string;
+  tags: Tag[];
+  allTags: Tag[];
+  onChanged: () => void;
+}
+
+const BetTagsEditor = ({ betId, tags, allTags, onChanged }: BetTagsEditorProps) => {
+  const { toast } = useToast();
+  const [open, setOpen] = useState(false);
+  const [names, setNames] = useState<string[]>([]);
+  const [saving, setSaving] = useState(false);
+
+  const handleOpenChange = (value: boolean) => {
+    if (value) setNames(tags.map((tag) => tag.name));
+    setOpen(value);
+  };
+
+  const handleSave = async () => {
+    setSaving(true);
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return;
+
+      await setBetTags(session.user.id, betId, names);
+
+      setOpen(false);
+      onChanged();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Error al guardar las etiquetas",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  return (
+    <div className="flex flex-wrap items-center gap-1 mb-2">
+      {tags.map((tag) => (
+        <Badge key={tag.id} variant="secondary">
+          {tag.name}
+        </Badge>
+      ))}
+      <Popover open={open} onOpenChange={handleOpenChange}>
+        <PopoverTrigger asChild>
+          <Button variant="ghost" size="sm" className="h-6 px-2 text-xs text-muted-foreground">
+            <TagIcon className="mr-1 h-3 w-3" />
+            {tags.length === 0 ? "Etiquetar" : "Editar"}
+          </Button>
+        </PopoverTrigger>
+        <PopoverContent className="w-72 space-y-3">
+          <TagPicker id={`tags-${betId}`} tags={allTags} value={names} onChange={setNames} />
+          <Button size="sm" className="w-full" onClick={handleSave} disabled={saving}>
+            {saving ? "Guardando..." : "Guardar Etiquetas"}
+          </Button>
+        </PopoverContent>
+      </Popover>
+    </div>
+  );
+};
+
+export default BetTagsEditor;
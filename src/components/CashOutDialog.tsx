@@ -0,0 +1,160 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Switch } from "./ui/switch";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+import { formatMoney } from "@/lib/currency";
+
+interface CashOutBet {
+  id: string;
+  amount: number;
+  cashout_amount: number | null;
+  cashout_stake: number | null;
+}
+
+interface CashOutDialogProps {
+  bet: CashOutBet | null;
+  currency: string;
+  onOpenChange: (open: boolean) => void;
+  onCashedOut: () => void;
+}
+
+const CashOutDialog = ({ bet, currency, onOpenChange, onCashedOut }: CashOutDialogProps) => {
+  const { toast } = useToast();
+  const [received, setReceived] = useState("");
+  const [partial, setPartial] = useState(false);
+  const [partialStake, setPartialStake] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setReceived("");
+    setPartial(false);
+    setPartialStake("");
+  }, [bet]);
+
+  const alreadyCashedStake = bet?.cashout_stake || 0;
+  const runningStake = bet ? bet.amount - alreadyCashedStake : 0;
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!bet) return;
+
+    const receivedAmount = parseFloat(received);
+    if (isNaN(receivedAmount) || receivedAmount < 0) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "El importe cobrado debe ser un número positivo",
+      });
+      return;
+    }
+
+    let stake = runningStake;
+    if (partial) {
+      stake = parseFloat(partialStake);
+      if (isNaN(stake) || stake <= 0 || stake >= runningStake) {
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: `El stake liquidado debe estar entre 0 y ${formatMoney(runningStake, currency)}`,
+        });
+        return;
+      }
+    }
+
+    setLoading(true);
+
+    try {
+      const { error } = await supabase
+        .from("bets")
+        .update({
+          cashout_amount: (bet.cashout_amount || 0) + receivedAmount,
+          cashout_stake: alreadyCashedStake + stake,
+          ...(partial ? {} : { status: "cashed_out" as const }),
+        })
+        .eq("id", bet.id);
+
+      if (error) throw error;
+
+      toast({
+        title: partial ? "Cash out parcial registrado" : "Cash out registrado",
+        description: partial
+          ? `Siguen en juego ${formatMoney(runningStake - stake, currency)}`
+          : "La apuesta se ha liquidado con el importe cobrado",
+      });
+
+      onOpenChange(false);
+      onCashedOut();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Error al registrar el cash out",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!bet} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Cash Out</DialogTitle>
+          <DialogDescription>
+            Stake en juego: {formatMoney(runningStake, currency)}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="cashout-received">Importe Cobrado</Label>
+            <Input
+              id="cashout-received"
+              type="number"
+              step="0.01"
+              placeholder="0.00"
+              value={received}
+              onChange={(e) => setReceived(e.target.value)}
+              required
+            />
+          </div>
+          <div className="flex items-center justify-between">
+            <Label htmlFor="cashout-partial">Cash out parcial</Label>
+            <Switch id="cashout-partial" checked={partial} onCheckedChange={setPartial} />
+          </div>
+          {partial && (
+            <div className="space-y-2">
+              <Label htmlFor="cashout-stake">Stake Liquidado</Label>
+              <Input
+                id="cashout-stake"
+                type="number"
+                step="0.01"
+                placeholder={(runningStake / 2).toFixed(2)}
+                value={partialStake}
+                onChange={(e) => setPartialStake(e.target.value)}
+                required
+              />
+              <p className="text-xs text-muted-foreground">
+                El resto del stake sigue en juego hasta que se resuelva la apuesta
+              </p>
+            </div>
+          )}
+          <Button type="submit" className="w-full" disabled={loading}>
+            {loading ? "Guardando..." : "Confirmar Cash Out"}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default CashOutDialog;
@@ -0,0 +1,99 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogFooter,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import { useToast } from "@/hooks/use-toast";
+
+interface DeleteBankDialogProps {
+  bank: { id: string; name: string } | null;
+  onOpenChange: (open: boolean) => void;
+  onDeleted: () => void;
+}
+
+const DeleteBankDialog = ({ bank, onOpenChange, onDeleted }: DeleteBankDialogProps) => {
+  const { toast } = useToast();
+  const [confirmation, setConfirmation] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    setConfirmation("");
+  }, [bank]);
+
+  const handleDelete = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!bank || confirmation !== bank.name) return;
+
+    setLoading(true);
+
+    try {
+      const { error } = await supabase.from("banks").delete().eq("id", bank.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Bank eliminado",
+        description: "El bank y todas sus apuestas han sido eliminados",
+      });
+
+      onOpenChange(false);
+      onDeleted();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message || "Error al eliminar el bank",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!bank} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>¿Eliminar {bank?.name} definitivamente?</DialogTitle>
+          <DialogDescription>
+            Se eliminarán el bank, todas sus apuestas y sus movimientos. No se puede deshacer.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleDelete} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="delete-bank-confirmation">
+              Escribe <span className="font-semibold">{bank?.name}</span> para confirmar
+            </Label>
+            <Input
+              id="delete-bank-confirmation"
+              autoComplete="off"
+              value={confirmation}
+              onChange={(e) => setConfirmation(e.target.value)}
+            />
+          </div>
+          <DialogFooter>
+            <Button type="button" variant="outline" onClick={() => onOpenChange(false)}>
+              Cancelar
+            </Button>
+            <Button
+              type="submit"
+              variant="destructive"
+              disabled={loading || !bank || confirmation !== bank.name}
+            >
+              {loading ? "Eliminando..." : "Eliminar Definitivamente"}
+            </Button>
+          </DialogFooter>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default DeleteBankDialog;
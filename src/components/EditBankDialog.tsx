@@ -0,0 +1,182 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Textarea } from "./ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { CURRENCIES } from "@/lib/currency";
+
+interface EditBankDialogProps {
+  bank: {
+    id: string;
+    name: string;
+    initial_balance: number;
+    currency: string;
+    notes: string | null;
+  } | null;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+const EditBankDialog = ({ bank, onOpenChange, onSaved }: EditBankDialogProps) => {
+  const { toast } = useToast();
+  const [name, setName] = useState("");
+  const [initialBalance, setInitialBalance] = useState("");
+  const [currency, setCurrency] = useState("");
+  const [notes, setNotes] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (bank) {
+      setName(bank.name);
+      setInitialBalance(bank.initial_balance.toString());
+      setCurrency(bank.currency);
+      setNotes(bank.notes || "");
+    }
+  }, [bank]);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!bank) return;
+
+    const balance = parseFloat(initialBalance);
+    if (isNaN(balance) || balance < 0) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "El balance debe ser un número positivo",
+      });
+      return;
+    }
+
+    if (!name.trim()) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "El nombre no puede estar vacío",
+      });
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      // The database shifts current_balance when the initial balance changes
+      const { error } = await supabase
+        .from("banks")
+        .update({
+          name: name.trim(),
+          initial_balance: balance,
+          currency,
+          notes: notes.trim() || null,
+        })
+        .eq("id", bank.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Bank actualizado",
+        description: "Los cambios se han guardado correctamente",
+      });
+
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message || "Error al actualizar el bank",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!bank} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Editar Bank</DialogTitle>
+          <DialogDescription>
+            El balance actual se recalcula a partir del nuevo balance inicial
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="edit-bank-name">Nombre del Bank</Label>
+            <Input
+              id="edit-bank-name"
+              value={name}
+              onChange={(e) => setName(e.target.value)}
+              required
+            />
+          </div>
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="edit-bank-balance">Balance Inicial</Label>
+              <Input
+                id="edit-bank-balance"
+                type="number"
+                step="0.01"
+                value={initialBalance}
+                onChange={(e) => setInitialBalance(e.target.value)}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-bank-currency">Moneda</Label>
+              <Select value={currency} onValueChange={setCurrency}>
+                <SelectTrigger id="edit-bank-currency">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {CURRENCIES.map((value) => (
+                    <SelectItem key={value} value={value}>
+                      {value}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+          {bank && currency !== bank.currency && (
+            <p className="text-xs text-warning">
+              Cambiar la moneda no convierte los importes: las apuestas y movimientos existentes
+              pasarán a mostrarse en {currency}
+            </p>
+          )}
+          <div className="space-y-2">
+            <Label htmlFor="edit-bank-notes">Notas (Opcional)</Label>
+            <Textarea
+              id="edit-bank-notes"
+              placeholder="Ej: Cuenta verificada, límite de retirada..."
+              value={notes}
+              onChange={(e) => setNotes(e.target.value)}
+              rows={3}
+            />
+          </div>
+          <Button type="submit" className="w-full" disabled={loading}>
+            {loading ? "Guardando..." : "Guardar Cambios"}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EditBankDialog;
@@ -0,0 +1,435 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Textarea } from "./ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { useToast } from "@/hooks/use-toast";
+import TagPicker from "./TagPicker";
+import { BET_STATUSES, BET_STATUS_LABELS, BetStatus, isMultiLegBet } from "@/lib/bets";
+import {
+  Taxonomy,
+  fetchTaxonomy,
+  matchName,
+  discardTaxonomy,
+  resolveTaxonomy,
+} from "@/lib/taxonomy";
+import { Tag, fetchTags, setBetTags, tagsOf } from "@/lib/tags";
+import { ODDS_PLACEHOLDERS, OddsFormat, formatOdds, parseOdds } from "@/lib/odds";
+
+export interface EditableBet {
+  id: string;
+  bank_id: string;
+  amount: number;
+  odds: number;
+  status: BetStatus;
+  bet_type: string;
+  description: string | null;
+  bet_date: string;
+  cashout_amount: number | null;
+  cashout_stake: number | null;
+  selection: string | null;
+  sport: { name: string } | null;
+  competition: { name: string } | null;
+  market_type: { name: string } | null;
+  bet_tags: { tags: Tag | null }[];
+}
+
+interface EditBetDialogProps {
+  bet: EditableBet | null;
+  banks: { id: string; name: string; currency: string }[];
+  oddsFormat: OddsFormat;
+  onOpenChange: (open: boolean) => void;
+  onSaved: () => void;
+}
+
+const EditBetDialog = ({ bet, banks, oddsFormat, onOpenChange, onSaved }: EditBetDialogProps) => {
+  const { toast } = useToast();
+  const [taxonomy, setTaxonomy] = useState<Taxonomy>({ sports: [], competitions: [], marketTypes: [] });
+  const [allTags, setAllTags] = useState<Tag[]>([]);
+  const [bankId, setBankId] = useState("");
+  const [amount, setAmount] = useState("");
+  const [odds, setOdds] = useState("");
+  const [status, setStatus] = useState<BetStatus>("open");
+  const [cashoutAmount, setCashoutAmount] = useState("");
+  const [betDate, setBetDate] = useState("");
+  const [sport, setSport] = useState("");
+  const [competition, setCompetition] = useState("");
+  const [marketType, setMarketType] = useState("");
+  const [selection, setSelection] = useState("");
+  const [tagNames, setTagNames] = useState<string[]>([]);
+  const [description, setDescription] = useState("");
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (!bet) return;
+
+    setBankId(bet.bank_id);
+    setAmount(bet.amount.toString());
+    setOdds(formatOdds(bet.odds, oddsFormat));
+    setStatus(bet.status);
+    setCashoutAmount(bet.cashout_amount?.toString() || "");
+    setBetDate(bet.bet_date);
+    setSport(bet.sport?.name || "");
+    setCompetition(bet.competition?.name || "");
+    setMarketType(bet.market_type?.name || "");
+    setSelection(bet.selection || "");
+    setTagNames(tagsOf(bet).map((tag) => tag.name));
+    setDescription(bet.description || "");
+
+    Promise.all([fetchTaxonomy(), fetchTags()])
+      .then(([taxonomyData, tagsData]) => {
+        setTaxonomy(taxonomyData);
+        setAllTags(tagsData);
+      })
+      .catch(() =>
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: "Error al cargar las categorías",
+        }),
+      );
+  }, [bet]);
+
+  const hasLegs = !!bet && isMultiLegBet(bet.bet_type);
+  // A system's amount is set by its combinations, and a cashed-out multi-leg bet's
+  // amount is the settled stake
+  const amountLocked = bet?.bet_type === "system" || (hasLegs && bet?.status === "cashed_out");
+  // A partial cash-out settles part of the stake: the amount cannot drop below it
+  const partiallyCashedOut = !!bet && bet.status !== "cashed_out" && (bet.cashout_stake || 0) > 0;
+
+  const sportNames = taxonomy.sports.map((s) => s.name);
+  const matchedSport = taxonomy.sports.find((s) => s.name === matchName(sportNames, sport));
+  const competitionNames = taxonomy.competitions
+    .filter((c) => c.sport_id === matchedSport?.id)
+    .map((c) => c.name);
+  const marketTypeNames = taxonomy.marketTypes.map((m) => m.name);
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!bet) return;
+
+    const betAmount = parseFloat(amount);
+    // Unchanged odds keep the stored value, which the displayed format may round
+    const betOdds = odds === formatOdds(bet.odds, oddsFormat) ? bet.odds : parseOdds(odds, oddsFormat);
+    const betCashout = parseFloat(cashoutAmount);
+
+    if (isNaN(betAmount) || betAmount <= 0) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "El monto debe ser un número positivo",
+      });
+      return;
+    }
+
+    if (partiallyCashedOut && betAmount < (bet.cashout_stake || 0)) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "El monto no puede ser menor que el stake ya liquidado en el cash out",
+      });
+      return;
+    }
+
+    if (!hasLegs && (isNaN(betOdds) || betOdds < 1)) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "La cuota debe ser mayor o igual a 1",
+      });
+      return;
+    }
+
+    if (!hasLegs && status === "cashed_out" && (isNaN(betCashout) || betCashout < 0)) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "El importe cobrado debe ser un número positivo",
+      });
+      return;
+    }
+
+    if (competition.trim() && !sport.trim()) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Indica el deporte de la competición",
+      });
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return;
+
+      // Stake, profit and cash-out are in the bank's currency and cannot move unconverted.
+      // The current bank may be archived and missing from `banks`, so its currency is read here.
+      if (bankId !== bet.bank_id) {
+        const { data: sourceBank, error: sourceError } = await supabase
+          .from("banks")
+          .select("currency")
+          .eq("id", bet.bank_id)
+          .single();
+        if (sourceError) throw sourceError;
+
+        if (banks.find((b) => b.id === bankId)?.currency !== sourceBank.currency) {
+          toast({
+            variant: "destructive",
+            title: "Error",
+            description: `Solo puedes mover la apuesta a un bank en ${sourceBank.currency}`,
+          });
+          return;
+        }
+      }
+
+      const resolved = await resolveTaxonomy(session.user.id, taxonomy, { sport, competition, marketType });
+      const { sportId, competitionId, marketTypeId } = resolved;
+
+      const cashOutFields = hasLegs
+        ? {}
+        : status === "cashed_out"
+          ? { cashout_amount: betCashout, cashout_stake: betAmount }
+          : bet.status === "cashed_out"
+            ? { cashout_amount: null, cashout_stake: null }
+            : {};
+
+      const { error } = await supabase
+        .from("bets")
+        .update({
+          bank_id: bankId,
+          // The database derives odds and status of parlays and systems from their legs
+          ...(!amountLocked && { amount: betAmount }),
+          ...(!hasLegs && { odds: Math.round(betOdds * 100) / 100, status }),
+          ...cashOutFields,
+          sport_id: sportId,
+          competition_id: competitionId,
+          market_type_id: marketTypeId,
+          selection: (!hasLegs && selection.trim()) || null,
+          description: description,
+          bet_date: betDate,
+        })
+        .eq("id", bet.id);
+
+      if (error) {
+        await discardTaxonomy(resolved);
+        throw error;
+      }
+
+      await setBetTags(session.user.id, bet.id, tagNames);
+
+      toast({
+        title: "Apuesta actualizada",
+        description: "Los cambios se han guardado y los balances se han recalculado",
+      });
+
+      onOpenChange(false);
+      onSaved();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: (error as Error).message || "Error al actualizar la apuesta",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={!!bet} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>Editar Apuesta</DialogTitle>
+          <DialogDescription>
+            {hasLegs
+              ? "La cuota y el resultado se calculan a partir de las selecciones"
+              : "Corrige cualquier dato de la apuesta"}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="edit-bank">Bank</Label>
+              <Select value={bankId} onValueChange={setBankId}>
+                <SelectTrigger id="edit-bank">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {banks.map((bank) => (
+                    <SelectItem key={bank.id} value={bank.id}>
+                      {bank.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-date">Fecha</Label>
+              <Input
+                id="edit-date"
+                type="date"
+                value={betDate}
+                onChange={(e) => setBetDate(e.target.value)}
+                required
+              />
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="edit-amount">Monto Apostado</Label>
+              <Input
+                id="edit-amount"
+                type="number"
+                step="0.01"
+                value={amount}
+                onChange={(e) => setAmount(e.target.value)}
+                disabled={amountLocked}
+                required
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-odds">Cuota</Label>
+              <Input
+                id="edit-odds"
+                placeholder={ODDS_PLACEHOLDERS[oddsFormat]}
+                value={odds}
+                onChange={(e) => setOdds(e.target.value)}
+                disabled={hasLegs}
+                required
+              />
+            </div>
+          </div>
+
+          {!hasLegs && (
+            <div className="grid grid-cols-2 gap-4">
+              <div className="space-y-2">
+                <Label htmlFor="edit-status">Resultado</Label>
+                <Select value={status} onValueChange={(value: BetStatus) => setStatus(value)}>
+                  <SelectTrigger id="edit-status">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {BET_STATUSES.map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {BET_STATUS_LABELS[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              {status === "cashed_out" && (
+                <div className="space-y-2">
+                  <Label htmlFor="edit-cashout">Importe Cobrado</Label>
+                  <Input
+                    id="edit-cashout"
+                    type="number"
+                    step="0.01"
+                    value={cashoutAmount}
+                    onChange={(e) => setCashoutAmount(e.target.value)}
+                    required
+                  />
+                </div>
+              )}
+            </div>
+          )}
+
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="edit-sport">Deporte</Label>
+              <Input
+                id="edit-sport"
+                list="edit-sport-options"
+                value={sport}
+                onChange={(e) => setSport(e.target.value)}
+              />
+              <datalist id="edit-sport-options">
+                {sportNames.map((name) => (
+                  <option key={name} value={name} />
+                ))}
+              </datalist>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-competition">Competición</Label>
+              <Input
+                id="edit-competition"
+                list="edit-competition-options"
+                placeholder={sport.trim() ? undefined : "Indica antes el deporte"}
+                value={competition}
+                onChange={(e) => setCompetition(e.target.value)}
+                disabled={!sport.trim()}
+              />
+              <datalist id="edit-competition-options">
+                {competitionNames.map((name) => (
+                  <option key={name} value={name} />
+                ))}
+              </datalist>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="edit-market-type">Mercado</Label>
+              <Input
+                id="edit-market-type"
+                list="edit-market-type-options"
+                value={marketType}
+                onChange={(e) => setMarketType(e.target.value)}
+              />
+              <datalist id="edit-market-type-options">
+                {marketTypeNames.map((name) => (
+                  <option key={name} value={name} />
+                ))}
+              </datalist>
+            </div>
+            {!hasLegs && (
+              <div className="space-y-2">
+                <Label htmlFor="edit-selection">Selección</Label>
+                <Input
+                  id="edit-selection"
+                  value={selection}
+                  onChange={(e) => setSelection(e.target.value)}
+                />
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="edit-tags">Etiquetas</Label>
+            <TagPicker id="edit-tags" tags={allTags} value={tagNames} onChange={setTagNames} />
+          </div>
+
+          <div className="space-y-2">
+            <Label htmlFor="edit-description">Descripción</Label>
+            <Textarea
+              id="edit-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              rows={2}
+            />
+          </div>
+
+          <Button type="submit" className="w-full" disabled={loading}>
+            {loading ? "Guardando..." : "Guardar Cambios"}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default EditBetDialog;
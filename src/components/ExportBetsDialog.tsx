@@ -0,0 +1,242 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle,
+} from "./ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { useToast } from "@/hooks/use-toast";
+import { BET_STATUS_PLURAL_LABELS, BetStatus } from "@/lib/bets";
+import { CSV_FORMATS, CsvFormatKey, CsvValue, detectCsvFormat, downloadCsv, toCsv } from "@/lib/csv";
+import { fetchAllPages } from "@/lib/pagination";
+
+type ExportedBet = Tables<"bets"> & {
+  bank: { name: string } | null;
+  sport: { name: string } | null;
+  competition: { name: string } | null;
+  market_type: { name: string } | null;
+};
+
+// Every column of the bets row, followed by the names behind its foreign keys
+const BET_COLUMNS: (keyof Tables<"bets">)[] = [
+  "id",
+  "user_id",
+  "bank_id",
+  "bet_date",
+  "bet_type",
+  "status",
+  "amount",
+  "odds",
+  "profit",
+  "cashout_amount",
+  "cashout_stake",
+  "system_sizes",
+  "description",
+  "selection",
+  "sport_id",
+  "competition_id",
+  "market_type_id",
+  "created_at",
+  "updated_at",
+];
+
+const NAME_COLUMNS = ["bank_name", "sport_name", "competition_name", "market_type_name"];
+
+const EXPORT_COLUMNS =
+  "*, bank:banks(name), sport:sports(name), competition:competitions(name), market_type:market_types(name)";
+
+// History's active filters; "all" leaves a field unfiltered
+export interface ExportFilters {
+  status: "all" | BetStatus;
+  sportId: string;
+  competitionId: string;
+  marketTypeId: string;
+  tagId: string;
+}
+
+interface ExportBetsDialogProps {
+  bank: { id: string; name: string } | undefined;
+  filters: ExportFilters;
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+}
+
+const ExportBetsDialog = ({ bank, filters, open, onOpenChange }: ExportBetsDialogProps) => {
+  const { toast } = useToast();
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [format, setFormat] = useState<CsvFormatKey>(detectCsvFormat);
+  const [loading, setLoading] = useState(false);
+
+  useEffect(() => {
+    if (open) {
+      setFromDate("");
+      setToDate("");
+    }
+  }, [open]);
+
+  const hasTaxonomyFilters = [filters.sportId, filters.competitionId, filters.marketTypeId, filters.tagId].some(
+    (value) => value !== "all",
+  );
+
+  const fetchPage = (bankId: string, from: number, to: number) => {
+    // Same inner join on bet_tags as the History tag filter
+    let query =
+      filters.tagId !== "all"
+        ? supabase
+            .from("bets")
+            .select(`${EXPORT_COLUMNS}, tag_filter:bet_tags!inner(tag_id)`)
+            .eq("tag_filter.tag_id", filters.tagId)
+        : supabase.from("bets").select(EXPORT_COLUMNS);
+    query = query.eq("bank_id", bankId);
+
+    if (filters.status !== "all") {
+      query = query.eq("status", filters.status);
+    }
+    if (filters.sportId !== "all") {
+      query = query.eq("sport_id", filters.sportId);
+    }
+    if (filters.competitionId !== "all") {
+      query = query.eq("competition_id", filters.competitionId);
+    }
+    if (filters.marketTypeId !== "all") {
+      query = query.eq("market_type_id", filters.marketTypeId);
+    }
+    if (fromDate) {
+      query = query.gte("bet_date", fromDate);
+    }
+    if (toDate) {
+      query = query.lte("bet_date", toDate);
+    }
+
+    return query
+      .order("bet_date", { ascending: true })
+      .order("created_at", { ascending: true })
+      .order("id")
+      .range(from, to);
+  };
+
+  const handleExport = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!bank) return;
+
+    if (fromDate && toDate && fromDate > toDate) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "La fecha inicial debe ser anterior a la final",
+      });
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const bets: ExportedBet[] = await fetchAllPages((from, to) => fetchPage(bank.id, from, to));
+
+      if (bets.length === 0) {
+        toast({
+          title: "Sin apuestas",
+          description: "No hay apuestas que exportar con estos filtros",
+        });
+        return;
+      }
+
+      const rows = bets.map((bet): CsvValue[] => [
+        ...BET_COLUMNS.map((column) => {
+          const value = bet[column];
+          return Array.isArray(value) ? value.join(" ") : value;
+        }),
+        bet.bank?.name,
+        bet.sport?.name,
+        bet.competition?.name,
+        bet.market_type?.name,
+      ]);
+
+      const csv = toCsv([...BET_COLUMNS, ...NAME_COLUMNS], rows, CSV_FORMATS[format]);
+      const range = [fromDate, toDate].filter(Boolean).join("_");
+      downloadCsv(`apuestas-${bank.name}${range && `-${range}`}.csv`, csv);
+
+      onOpenChange(false);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Error al exportar las apuestas",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent>
+        <DialogHeader>
+          <DialogTitle>Exportar a CSV</DialogTitle>
+          <DialogDescription>
+            {filters.status === "all"
+              ? `Todas las apuestas de ${bank?.name}`
+              : `${BET_STATUS_PLURAL_LABELS[filters.status]} de ${bank?.name}`}
+            {hasTaxonomyFilters && ", con los demás filtros activos del historial"}
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleExport} className="space-y-4">
+          <div className="grid grid-cols-2 gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="export-from">Desde (Opcional)</Label>
+              <Input
+                id="export-from"
+                type="date"
+                value={fromDate}
+                onChange={(e) => setFromDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="export-to">Hasta (Opcional)</Label>
+              <Input
+                id="export-to"
+                type="date"
+                value={toDate}
+                onChange={(e) => setToDate(e.target.value)}
+              />
+            </div>
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="export-format">Formato</Label>
+            <Select value={format} onValueChange={(value: CsvFormatKey) => setFormat(value)}>
+              <SelectTrigger id="export-format">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {(Object.keys(CSV_FORMATS) as CsvFormatKey[]).map((key) => (
+                  <SelectItem key={key} value={key}>
+                    {CSV_FORMATS[key].label}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+          <Button type="submit" className="w-full" disabled={loading || !bank}>
+            {loading ? "Exportando..." : "Descargar CSV"}
+          </Button>
+        </form>
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ExportBetsDialog;
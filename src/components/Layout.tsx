@@ -11,7 +11,11 @@ import {
   LogOut,
   TrendingUp,
   Menu,
-  X
+  X,
+  Settings,
+  BarChart3,
+  Upload,
+  FileText
 } from "lucide-react";
 import { Session } from "@supabase/supabase-js";
 import { useToast } from "@/hooks/use-toast";
@@ -60,6 +64,10 @@ const Layout = ({ children }: LayoutProps) => {
     { icon: Plus, label: "Nueva Apuesta", path: "/new-bet" },
     { icon: Calendar, label: "Apuestas del Día", path: "/daily-bets" },
     { icon: History, label: "Historial", path: "/history" },
+    { icon: Upload, label: "Importar", path: "/import" },
+    { icon: BarChart3, label: "Análisis", path: "/analytics" },
+    { icon: FileText, label: "Informe", path: "/report" },
+    { icon: Settings, label: "Ajustes", path: "/settings" },
   ];
 
   const isActive = (path: string) => location.pathname === path;
@@ -71,7 +79,7 @@ const Layout = ({ children }: LayoutProps) => {
   return (
     <div className="min-h-screen bg-background flex flex-col lg:flex-row">
       {/* Sidebar Desktop */}
-      <aside className="hidden lg:flex lg:flex-col lg:w-64 bg-card border-r border-border">
+      <aside className="hidden lg:flex lg:flex-col lg:w-64 bg-card border-r border-border print:hidden">
         <div className="p-6 border-b border-border">
           <div className="flex items-center gap-3">
             <div className="p-2 bg-primary/10 rounded-xl">
@@ -108,7 +116,7 @@ const Layout = ({ children }: LayoutProps) => {
       </aside>
 
       {/* Mobile Header */}
-      <div className="lg:hidden sticky top-0 z-50 bg-card border-b border-border">
+      <div className="lg:hidden sticky top-0 z-50 bg-card border-b border-border print:hidden">
         <div className="flex items-center justify-between p-4">
           <div className="flex items-center gap-2">
             <div className="p-2 bg-primary/10 rounded-xl">
@@ -157,7 +165,7 @@ const Layout = ({ children }: LayoutProps) => {
       </div>
 
       {/* Main Content */}
-      <main className="flex-1 overflow-auto">
+      <main className="flex-1 overflow-auto print:overflow-visible">
         {children}
       </main>
     </div>
@@ -0,0 +1,102 @@
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { BET_STATUS_LABELS, BetStatus, LEG_STATUSES, LegDraft, emptyLeg } from "@/lib/bets";
+import { DEFAULT_ODDS_FORMAT, ODDS_PLACEHOLDERS, OddsFormat } from "@/lib/odds";
+
+interface LegsEditorProps {
+  legs: LegDraft[];
+  onChange: (legs: LegDraft[]) => void;
+  minLegs?: number;
+  oddsFormat?: OddsFormat;
+}
+
+const LegsEditor = ({ legs, onChange, minLegs = 2, oddsFormat = DEFAULT_ODDS_FORMAT }: LegsEditorProps) => {
+  const updateLeg = (index: number, changes: Partial<LegDraft>) => {
+    onChange(legs.map((leg, i) => (i === index ? { ...leg, ...changes } : leg)));
+  };
+
+  const removeLeg = (index: number) => {
+    onChange(legs.filter((_, i) => i !== index));
+  };
+
+  return (
+    <div className="space-y-3">
+      <Label>Selecciones</Label>
+      {legs.map((leg, index) => (
+        <div key={index} className="border rounded-lg p-3 space-y-2">
+          <div className="flex items-center justify-between">
+            <span className="text-sm font-medium text-muted-foreground">
+              Selección {index + 1}
+            </span>
+            <Button
+              type="button"
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 text-destructive hover:text-destructive"
+              onClick={() => removeLeg(index)}
+              disabled={legs.length <= minLegs}
+            >
+              <Trash2 className="h-4 w-4" />
+            </Button>
+          </div>
+          <Input
+            placeholder="Evento (Ej: Real Madrid vs Barcelona)"
+            value={leg.event}
+            onChange={(e) => updateLeg(index, { event: e.target.value })}
+            required
+          />
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2">
+            <Input
+              className="sm:col-span-1"
+              placeholder="Selección (Ej: Over 2.5)"
+              value={leg.selection}
+              onChange={(e) => updateLeg(index, { selection: e.target.value })}
+              required
+            />
+            <Input
+              placeholder={`Cuota (Ej: ${ODDS_PLACEHOLDERS[oddsFormat]})`}
+              value={leg.odds}
+              onChange={(e) => updateLeg(index, { odds: e.target.value })}
+              required
+            />
+            <Select
+              value={leg.status}
+              onValueChange={(value: BetStatus) => updateLeg(index, { status: value })}
+            >
+              <SelectTrigger>
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {LEG_STATUSES.map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {BET_STATUS_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+          </div>
+        </div>
+      ))}
+      <Button
+        type="button"
+        variant="outline"
+        className="w-full"
+        onClick={() => onChange([...legs, emptyLeg()])}
+      >
+        <Plus className="mr-2 h-4 w-4" />
+        Añadir Selección
+      </Button>
+    </div>
+  );
+};
+
+export default LegsEditor;
@@ -0,0 +1,113 @@
+import { useState } from "react";
+import { Bar, BarChart, CartesianGrid, XAxis, YAxis } from "recharts";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "./ui/table";
+import {
+  ChartConfig,
+  ChartContainer,
+  ChartLegend,
+  ChartLegendContent,
+  ChartTooltip,
+  ChartTooltipContent,
+} from "./ui/chart";
+import {
+  AnalyticsBet,
+  DEFAULT_ODDS_BAND_LIMITS,
+  breakdownByOddsBand,
+  buildOddsBands,
+  parseOddsBandLimits,
+} from "@/lib/analytics";
+import { formatMoney } from "@/lib/currency";
+
+interface OddsBandBreakdownProps {
+  bets: AnalyticsBet[];
+  currency: string;
+}
+
+const chartConfig = {
+  impliedRate: { label: "Probabilidad implícita", color: "hsl(var(--muted-foreground))" },
+  strikeRate: { label: "Acierto real", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const OddsBandBreakdown = ({ bets, currency }: OddsBandBreakdownProps) => {
+  const [limitsInput, setLimitsInput] = useState(DEFAULT_ODDS_BAND_LIMITS.join(", "));
+
+  const rows = breakdownByOddsBand(bets, buildOddsBands(parseOddsBandLimits(limitsInput)));
+  const chartData = rows.map((row) => ({
+    band: row.band.label,
+    impliedRate: Number(row.impliedRate.toFixed(1)),
+    strikeRate: Number(row.strikeRate.toFixed(1)),
+  }));
+
+  return (
+    <Card>
+      <CardHeader className="flex flex-col sm:flex-row sm:items-end justify-between gap-4">
+        <CardTitle>Rendimiento por Cuota</CardTitle>
+        <div className="space-y-2 sm:w-64">
+          <Label htmlFor="odds-bands">Límites de los tramos</Label>
+          <Input
+            id="odds-bands"
+            placeholder="1.5, 2, 3"
+            value={limitsInput}
+            onChange={(e) => setLimitsInput(e.target.value)}
+          />
+        </div>
+      </CardHeader>
+      <CardContent className="space-y-6">
+        <ChartContainer config={chartConfig} className="aspect-auto h-64 w-full">
+          <BarChart data={chartData}>
+            <CartesianGrid vertical={false} />
+            <XAxis dataKey="band" tickLine={false} axisLine={false} />
+            <YAxis tickLine={false} axisLine={false} unit="%" />
+            <ChartTooltip content={<ChartTooltipContent />} />
+            <ChartLegend content={<ChartLegendContent />} />
+            <Bar dataKey="impliedRate" fill="var(--color-impliedRate)" radius={4} />
+            <Bar dataKey="strikeRate" fill="var(--color-strikeRate)" radius={4} />
+          </BarChart>
+        </ChartContainer>
+
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead>Cuota</TableHead>
+              <TableHead className="text-right">Apuestas</TableHead>
+              <TableHead className="text-right">Acierto</TableHead>
+              <TableHead className="text-right">Implícita</TableHead>
+              <TableHead className="text-right">Apostado</TableHead>
+              <TableHead className="text-right">Beneficio</TableHead>
+              <TableHead className="text-right">Yield</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {rows.map((row) => (
+              <TableRow key={row.band.label}>
+                <TableCell className="font-medium">{row.band.label}</TableCell>
+                <TableCell className="text-right">{row.count}</TableCell>
+                <TableCell className="text-right">{row.strikeRate.toFixed(1)}%</TableCell>
+                <TableCell className="text-right text-muted-foreground">{row.impliedRate.toFixed(1)}%</TableCell>
+                <TableCell className="text-right">{formatMoney(row.staked, currency)}</TableCell>
+                <TableCell className={`text-right ${row.profit >= 0 ? "text-success" : "text-danger"}`}>
+                  {formatMoney(row.profit, currency, { signed: true })}
+                </TableCell>
+                <TableCell className={`text-right ${row.yield >= 0 ? "text-success" : "text-danger"}`}>
+                  {row.yield.toFixed(2)}%
+                </TableCell>
+              </TableRow>
+            ))}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default OddsBandBreakdown;
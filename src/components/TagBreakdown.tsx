@@ -0,0 +1,97 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardHeader, CardTitle } from "./ui/card";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "./ui/table";
+import { useToast } from "@/hooks/use-toast";
+import { AnalyticsBet, breakdownByTag } from "@/lib/analytics";
+import { formatMoney } from "@/lib/currency";
+import { fetchAllPages } from "@/lib/pagination";
+import { Tag, fetchTags } from "@/lib/tags";
+
+interface TagBreakdownProps {
+  bets: (AnalyticsBet & { id: string })[];
+  currency: string;
+}
+
+const TagBreakdown = ({ bets, currency }: TagBreakdownProps) => {
+  const { toast } = useToast();
+  const [tags, setTags] = useState<Tag[]>([]);
+  const [betTags, setBetTags] = useState<{ bet_id: string; tag_id: string }[]>([]);
+
+  useEffect(() => {
+    fetchTagLinks();
+  }, []);
+
+  const fetchTagLinks = async () => {
+    try {
+      const [tagsData, betTagsData] = await Promise.all([
+        fetchTags(),
+        fetchAllPages((from, to) =>
+          supabase.from("bet_tags").select("bet_id, tag_id").order("bet_id").order("tag_id").range(from, to),
+        ),
+      ]);
+
+      setTags(tagsData);
+      setBetTags(betTagsData);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Error al cargar las etiquetas",
+      });
+    }
+  };
+
+  const rows = breakdownByTag(bets, tags, betTags);
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Rendimiento por Etiqueta</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {rows.length === 0 ? (
+          <p className="text-sm text-muted-foreground text-center py-8">
+            No hay apuestas liquidadas con etiquetas en el periodo
+          </p>
+        ) : (
+          <Table>
+            <TableHeader>
+              <TableRow>
+                <TableHead>Etiqueta</TableHead>
+                <TableHead className="text-right">Apuestas</TableHead>
+                <TableHead className="text-right">Apostado</TableHead>
+                <TableHead className="text-right">Beneficio</TableHead>
+                <TableHead className="text-right">Yield</TableHead>
+              </TableRow>
+            </TableHeader>
+            <TableBody>
+              {rows.map((row) => (
+                <TableRow key={row.tag.id}>
+                  <TableCell className="font-medium">{row.tag.name}</TableCell>
+                  <TableCell className="text-right">{row.count}</TableCell>
+                  <TableCell className="text-right">{formatMoney(row.staked, currency)}</TableCell>
+                  <TableCell className={`text-right ${row.profit >= 0 ? "text-success" : "text-danger"}`}>
+                    {formatMoney(row.profit, currency, { signed: true })}
+                  </TableCell>
+                  <TableCell className={`text-right ${row.yield >= 0 ? "text-success" : "text-danger"}`}>
+                    {row.yield.toFixed(2)}%
+                  </TableCell>
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TagBreakdown;
@@ -0,0 +1,74 @@
+import { useState } from "react";
+import { Badge } from "./ui/badge";
+import { Input } from "./ui/input";
+import { X } from "lucide-react";
+import { Tag } from "@/lib/tags";
+import { matchName } from "@/lib/taxonomy";
+
+interface TagPickerProps {
+  id?: string;
+  tags: Tag[];
+  value: string[];
+  onChange: (names: string[]) => void;
+}
+
+const TagPicker = ({ id = "tags", tags, value, onChange }: TagPickerProps) => {
+  const [input, setInput] = useState("");
+
+  const addTag = () => {
+    const name = matchName(
+      tags.map((tag) => tag.name),
+      input,
+    );
+    if (name && !value.some((tag) => tag.toLowerCase() === name.toLowerCase())) {
+      onChange([...value, name]);
+    }
+    setInput("");
+  };
+
+  return (
+    <div className="space-y-2">
+      {value.length > 0 && (
+        <div className="flex flex-wrap gap-1">
+          {value.map((name) => (
+            <Badge key={name} variant="secondary" className="gap-1">
+              {name}
+              <button
+                type="button"
+                aria-label={`Quitar ${name}`}
+                onClick={() => onChange(value.filter((tag) => tag !== name))}
+              >
+                <X className="h-3 w-3" />
+              </button>
+            </Badge>
+          ))}
+        </div>
+      )}
+      <Input
+        id={id}
+        list={`${id}-options`}
+        placeholder="Escribe una etiqueta y pulsa Enter"
+        value={input}
+        onChange={(e) => setInput(e.target.value)}
+        onKeyDown={(e) => {
+          if (e.key === "Enter" || e.key === ",") {
+            e.preventDefault();
+            addTag();
+          }
+        }}
+        onBlur={() => {
+          if (input.trim()) addTag();
+        }}
+      />
+      <datalist id={`${id}-options`}>
+        {tags
+          .filter((tag) => !value.includes(tag.name))
+          .map((tag) => (
+            <option key={tag.id} value={tag.name} />
+          ))}
+      </datalist>
+    </div>
+  );
+};
+
+export default TagPicker;
@@ -0,0 +1,270 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "./ui/card";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { Plus, Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { Taxonomy, fetchTaxonomy } from "@/lib/taxonomy";
+
+type TaxonomyTable = "sports" | "competitions" | "market_types";
+
+interface EntryRowProps {
+  name: string;
+  onRename: (name: string) => void;
+  onDelete: () => void;
+}
+
+const EntryRow = ({ name, onRename, onDelete }: EntryRowProps) => {
+  const [value, setValue] = useState(name);
+
+  useEffect(() => {
+    setValue(name);
+  }, [name]);
+
+  return (
+    <div className="flex items-center gap-2">
+      <Input
+        className="h-8"
+        value={value}
+        onChange={(e) => setValue(e.target.value)}
+        onBlur={() => {
+          if (value.trim() && value.trim() !== name) {
+            onRename(value.trim());
+          } else {
+            setValue(name);
+          }
+        }}
+      />
+      <Button
+        variant="ghost"
+        size="icon"
+        className="h-8 w-8 shrink-0 text-destructive hover:text-destructive"
+        onClick={onDelete}
+      >
+        <Trash2 className="h-4 w-4" />
+      </Button>
+    </div>
+  );
+};
+
+const TaxonomyManager = () => {
+  const { toast } = useToast();
+  const [taxonomy, setTaxonomy] = useState<Taxonomy>({ sports: [], competitions: [], marketTypes: [] });
+  const [newSport, setNewSport] = useState("");
+  const [newCompetition, setNewCompetition] = useState("");
+  const [competitionSportId, setCompetitionSportId] = useState("");
+  const [newMarketType, setNewMarketType] = useState("");
+
+  useEffect(() => {
+    refresh();
+  }, []);
+
+  const refresh = async () => {
+    try {
+      const data = await fetchTaxonomy();
+      setTaxonomy(data);
+      setCompetitionSportId((current) =>
+        data.sports.some((sport) => sport.id === current) ? current : data.sports[0]?.id || "",
+      );
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Error al cargar las categorías",
+      });
+    }
+  };
+
+  const handleCreate = async (table: TaxonomyTable, name: string, sportId?: string) => {
+    if (!name.trim() || (table === "competitions" && !sportId)) return false;
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return false;
+
+      const { error } =
+        table === "competitions"
+          ? await supabase
+              .from("competitions")
+              .insert({ user_id: session.user.id, sport_id: sportId as string, name: name.trim() })
+          : await supabase.from(table).insert({ user_id: session.user.id, name: name.trim() });
+
+      if (error) throw error;
+
+      refresh();
+      return true;
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "No se pudo crear la categoría. ¿Ya existe una con ese nombre?",
+      });
+      return false;
+    }
+  };
+
+  const handleRename = async (table: TaxonomyTable, id: string, name: string) => {
+    try {
+      const { error } = await supabase.from(table).update({ name }).eq("id", id);
+
+      if (error) throw error;
+
+      refresh();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "No se pudo renombrar. ¿Ya existe una categoría con ese nombre?",
+      });
+      refresh();
+    }
+  };
+
+  const handleDelete = async (table: TaxonomyTable, id: string) => {
+    try {
+      const { error } = await supabase.from(table).delete().eq("id", id);
+
+      if (error) throw error;
+
+      refresh();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Error al eliminar la categoría",
+      });
+    }
+  };
+
+  return (
+    <Card>
+      <CardHeader>
+        <CardTitle>Categorías de Apuestas</CardTitle>
+        <CardDescription>
+          Deportes, competiciones y mercados disponibles al registrar apuestas. Eliminar una categoría
+          no borra las apuestas, solo las deja sin clasificar.
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="grid grid-cols-1 md:grid-cols-3 gap-6">
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium">Deportes</h3>
+          <form
+            className="flex gap-2"
+            onSubmit={async (e) => {
+              e.preventDefault();
+              if (await handleCreate("sports", newSport)) setNewSport("");
+            }}
+          >
+            <Input
+              className="h-8"
+              placeholder="Nuevo deporte"
+              value={newSport}
+              onChange={(e) => setNewSport(e.target.value)}
+            />
+            <Button type="submit" size="icon" variant="outline" className="h-8 w-8 shrink-0">
+              <Plus className="h-4 w-4" />
+            </Button>
+          </form>
+          {taxonomy.sports.map((sport) => (
+            <EntryRow
+              key={sport.id}
+              name={sport.name}
+              onRename={(name) => handleRename("sports", sport.id, name)}
+              onDelete={() => handleDelete("sports", sport.id)}
+            />
+          ))}
+        </div>
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium">Competiciones</h3>
+          {taxonomy.sports.length === 0 ? (
+            <p className="text-xs text-muted-foreground">Crea primero un deporte</p>
+          ) : (
+            <>
+              <Select value={competitionSportId} onValueChange={setCompetitionSportId}>
+                <SelectTrigger className="h-8">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {taxonomy.sports.map((sport) => (
+                    <SelectItem key={sport.id} value={sport.id}>
+                      {sport.name}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+              <form
+                className="flex gap-2"
+                onSubmit={async (e) => {
+                  e.preventDefault();
+                  if (await handleCreate("competitions", newCompetition, competitionSportId)) {
+                    setNewCompetition("");
+                  }
+                }}
+              >
+                <Input
+                  className="h-8"
+                  placeholder="Nueva competición"
+                  value={newCompetition}
+                  onChange={(e) => setNewCompetition(e.target.value)}
+                />
+                <Button type="submit" size="icon" variant="outline" className="h-8 w-8 shrink-0">
+                  <Plus className="h-4 w-4" />
+                </Button>
+              </form>
+              {taxonomy.competitions
+                .filter((competition) => competition.sport_id === competitionSportId)
+                .map((competition) => (
+                  <EntryRow
+                    key={competition.id}
+                    name={competition.name}
+                    onRename={(name) => handleRename("competitions", competition.id, name)}
+                    onDelete={() => handleDelete("competitions", competition.id)}
+                  />
+                ))}
+            </>
+          )}
+        </div>
+
+        <div className="space-y-2">
+          <h3 className="text-sm font-medium">Mercados</h3>
+          <form
+            className="flex gap-2"
+            onSubmit={async (e) => {
+              e.preventDefault();
+              if (await handleCreate("market_types", newMarketType)) setNewMarketType("");
+            }}
+          >
+            <Input
+              className="h-8"
+              placeholder="Nuevo mercado"
+              value={newMarketType}
+              onChange={(e) => setNewMarketType(e.target.value)}
+            />
+            <Button type="submit" size="icon" variant="outline" className="h-8 w-8 shrink-0">
+              <Plus className="h-4 w-4" />
+            </Button>
+          </form>
+          {taxonomy.marketTypes.map((marketType) => (
+            <EntryRow
+              key={marketType.id}
+              name={marketType.name}
+              onRename={(name) => handleRename("market_types", marketType.id, name)}
+              onDelete={() => handleDelete("market_types", marketType.id)}
+            />
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default TaxonomyManager;
@@ -0,0 +1,86 @@
+import { useEffect, useRef } from "react";
+import { toast as notify } from "sonner";
+import { supabase } from "@/integrations/supabase/client";
+import { Tables } from "@/integrations/supabase/types";
+import { useToast } from "@/hooks/use-toast";
+
+const UNDO_WINDOW_MS = 5000;
+
+type BetSnapshot = Tables<"bets"> & {
+  bet_legs: Tables<"bet_legs">[];
+  bet_combinations: Tables<"bet_combinations">[];
+  bet_tags: Tables<"bet_tags">[];
+};
+
+// Inserts the deleted rows again with their original ids, so combinations still point at
+// their legs; the triggers recompute the bank balance as for any new bet
+const restoreBet = async ({ bet_legs, bet_combinations, bet_tags, ...bet }: BetSnapshot) => {
+  const { error: betError } = await supabase.from("bets").insert(bet);
+  if (betError) throw betError;
+
+  try {
+    if (bet_legs.length > 0) {
+      const { error } = await supabase.from("bet_legs").insert(bet_legs);
+      if (error) throw error;
+    }
+    if (bet_combinations.length > 0) {
+      const { error } = await supabase.from("bet_combinations").insert(bet_combinations);
+      if (error) throw error;
+    }
+    if (bet_tags.length > 0) {
+      const { error } = await supabase.from("bet_tags").insert(bet_tags);
+      if (error) throw error;
+    }
+  } catch (error) {
+    // A bet without its legs would settle wrongly, so a partial restore is removed again
+    await supabase.from("bets").delete().eq("id", bet.id);
+    throw error;
+  }
+};
+
+// The delete is sent straight away, so it survives a reload and later fetches never bring
+// the bet back; undoing restores a snapshot taken just before deleting
+export function useUndoableBetDelete(refresh: () => void) {
+  const { toast } = useToast();
+  const refreshRef = useRef(refresh);
+
+  useEffect(() => {
+    refreshRef.current = refresh;
+  }, [refresh]);
+
+  const showError = (description: string) =>
+    toast({
+      variant: "destructive",
+      title: "Error",
+      description,
+    });
+
+  return async (betId: string) => {
+    try {
+      const { data: snapshot, error: snapshotError } = await supabase
+        .from("bets")
+        .select("*, bet_legs(*), bet_combinations(*), bet_tags(*)")
+        .eq("id", betId)
+        .single();
+      if (snapshotError) throw snapshotError;
+
+      const { error } = await supabase.from("bets").delete().eq("id", betId);
+      if (error) throw error;
+
+      notify("Apuesta eliminada", {
+        duration: UNDO_WINDOW_MS,
+        action: {
+          label: "Deshacer",
+          onClick: () => {
+            restoreBet(snapshot)
+              .catch(() => showError("Error al restaurar la apuesta"))
+              .finally(() => refreshRef.current());
+          },
+        },
+      });
+    } catch (error) {
+      showError("Error al eliminar la apuesta");
+    }
+    refreshRef.current();
+  };
+}
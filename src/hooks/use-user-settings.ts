@@ -0,0 +1,34 @@
+import { useCallback, useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import { DEFAULT_CURRENCY, ExchangeRate } from "@/lib/currency";
+import { DEFAULT_ODDS_FORMAT, OddsFormat, isOddsFormat } from "@/lib/odds";
+
+export function useUserSettings() {
+  const [reportingCurrency, setReportingCurrency] = useState(DEFAULT_CURRENCY);
+  const [oddsFormat, setOddsFormat] = useState<OddsFormat>(DEFAULT_ODDS_FORMAT);
+  const [rates, setRates] = useState<ExchangeRate[]>([]);
+  const [loaded, setLoaded] = useState(false);
+
+  const refresh = useCallback(async () => {
+    const { data: { session } } = await supabase.auth.getSession();
+    if (!session) return;
+
+    const [profileResult, ratesResult] = await Promise.all([
+      supabase.from("profiles").select("reporting_currency, odds_format").eq("id", session.user.id).maybeSingle(),
+      supabase.from("exchange_rates").select("id, base_currency, quote_currency, rate"),
+    ]);
+
+    if (profileResult.data) {
+      setReportingCurrency(profileResult.data.reporting_currency);
+      if (isOddsFormat(profileResult.data.odds_format)) setOddsFormat(profileResult.data.odds_format);
+    }
+    setRates(ratesResult.data || []);
+    setLoaded(true);
+  }, []);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  return { reportingCurrency, oddsFormat, rates, loaded, refresh };
+}
@@ -14,31 +14,162 @@ export type Database = {
   }
   public: {
     Tables: {
+      bank_reconciliations: {
+        Row: {
+          bank_id: string
+          created_at: string
+          difference: number
+          id: string
+          real_balance: number
+          reason: string | null
+          tracked_balance: number
+          transaction_id: string | null
+          user_id: string
+        }
+        Insert: {
+          bank_id: string
+          created_at?: string
+          difference: number
+          id?: string
+          real_balance: number
+          reason?: string | null
+          tracked_balance: number
+          transaction_id?: string | null
+          user_id: string
+        }
+        Update: {
+          bank_id?: string
+          created_at?: string
+          difference?: number
+          id?: string
+          real_balance?: number
+          reason?: string | null
+          tracked_balance?: number
+          transaction_id?: string | null
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bank_reconciliations_bank_id_fkey"
+            columns: ["bank_id"]
+            isOneToOne: false
+            referencedRelation: "banks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_reconciliations_transaction_id_fkey"
+            columns: ["transaction_id"]
+            isOneToOne: false
+            referencedRelation: "bank_transactions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_reconciliations_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bank_transactions: {
+        Row: {
+          amount: number
+          bank_id: string
+          counterparty_bank_id: string | null
+          created_at: string
+          description: string | null
+          id: string
+          transaction_date: string
+          transfer_id: string | null
+          type: Database["public"]["Enums"]["bank_transaction_type"]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          amount: number
+          bank_id: string
+          counterparty_bank_id?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          transaction_date?: string
+          transfer_id?: string | null
+          type: Database["public"]["Enums"]["bank_transaction_type"]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          amount?: number
+          bank_id?: string
+          counterparty_bank_id?: string | null
+          created_at?: string
+          description?: string | null
+          id?: string
+          transaction_date?: string
+          transfer_id?: string | null
+          type?: Database["public"]["Enums"]["bank_transaction_type"]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bank_transactions_bank_id_fkey"
+            columns: ["bank_id"]
+            isOneToOne: false
+            referencedRelation: "banks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_transactions_counterparty_bank_id_fkey"
+            columns: ["counterparty_bank_id"]
+            isOneToOne: false
+            referencedRelation: "banks"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bank_transactions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       banks: {
         Row: {
+          archived_at: string | null
           created_at: string
+          currency: string
           current_balance: number
           id: string
           initial_balance: number
           name: string
+          notes: string | null
           updated_at: string
           user_id: string
         }
         Insert: {
+          archived_at?: string | null
           created_at?: string
+          currency?: string
           current_balance?: number
           id?: string
           initial_balance?: number
           name: string
+          notes?: string | null
           updated_at?: string
           user_id: string
         }
         Update: {
+          archived_at?: string | null
           created_at?: string
+          currency?: string
           current_balance?: number
           id?: string
           initial_balance?: number
           name?: string
+          notes?: string | null
           updated_at?: string
           user_id?: string
         }
@@ -52,18 +183,173 @@ export type Database = {
           },
         ]
       }
+      bet_combinations: {
+        Row: {
+          bet_id: string
+          created_at: string
+          id: string
+          leg_ids: string[]
+          odds: number
+          stake: number
+          status: Database["public"]["Enums"]["bet_status"]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          bet_id: string
+          created_at?: string
+          id?: string
+          leg_ids: string[]
+          odds: number
+          stake: number
+          status?: Database["public"]["Enums"]["bet_status"]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          bet_id?: string
+          created_at?: string
+          id?: string
+          leg_ids?: string[]
+          odds?: number
+          stake?: number
+          status?: Database["public"]["Enums"]["bet_status"]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bet_combinations_bet_id_fkey"
+            columns: ["bet_id"]
+            isOneToOne: false
+            referencedRelation: "bets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bet_combinations_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bet_legs: {
+        Row: {
+          bet_id: string
+          created_at: string
+          event: string
+          id: string
+          odds: number
+          position: number
+          selection: string
+          status: Database["public"]["Enums"]["bet_status"]
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          bet_id: string
+          created_at?: string
+          event: string
+          id?: string
+          odds: number
+          position?: number
+          selection: string
+          status?: Database["public"]["Enums"]["bet_status"]
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          bet_id?: string
+          created_at?: string
+          event?: string
+          id?: string
+          odds?: number
+          position?: number
+          selection?: string
+          status?: Database["public"]["Enums"]["bet_status"]
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bet_legs_bet_id_fkey"
+            columns: ["bet_id"]
+            isOneToOne: false
+            referencedRelation: "bets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bet_legs_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      bet_tags: {
+        Row: {
+          bet_id: string
+          created_at: string
+          tag_id: string
+          user_id: string
+        }
+        Insert: {
+          bet_id: string
+          created_at?: string
+          tag_id: string
+          user_id: string
+        }
+        Update: {
+          bet_id?: string
+          created_at?: string
+          tag_id?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "bet_tags_bet_id_fkey"
+            columns: ["bet_id"]
+            isOneToOne: false
+            referencedRelation: "bets"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bet_tags_tag_id_fkey"
+            columns: ["tag_id"]
+            isOneToOne: false
+            referencedRelation: "tags"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bet_tags_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       bets: {
         Row: {
           amount: number
           bank_id: string
           bet_date: string
           bet_type: string
+          cashout_amount: number | null
+          cashout_stake: number | null
+          competition_id: string | null
           created_at: string
           description: string | null
           id: string
+          market_type_id: string | null
           odds: number
           profit: number | null
+          selection: string | null
+          sport_id: string | null
           status: Database["public"]["Enums"]["bet_status"]
+          system_sizes: number[] | null
           updated_at: string
           user_id: string
         }
@@ -72,12 +358,19 @@ export type Database = {
           bank_id: string
           bet_date?: string
           bet_type?: string
+          cashout_amount?: number | null
+          cashout_stake?: number | null
+          competition_id?: string | null
           created_at?: string
           description?: string | null
           id?: string
+          market_type_id?: string | null
           odds: number
           profit?: number | null
+          selection?: string | null
+          sport_id?: string | null
           status?: Database["public"]["Enums"]["bet_status"]
+          system_sizes?: number[] | null
           updated_at?: string
           user_id: string
         }
@@ -86,12 +379,19 @@ export type Database = {
           bank_id?: string
           bet_date?: string
           bet_type?: string
+          cashout_amount?: number | null
+          cashout_stake?: number | null
+          competition_id?: string | null
           created_at?: string
           description?: string | null
           id?: string
+          market_type_id?: string | null
           odds?: number
           profit?: number | null
+          selection?: string | null
+          sport_id?: string | null
           status?: Database["public"]["Enums"]["bet_status"]
+          system_sizes?: number[] | null
           updated_at?: string
           user_id?: string
         }
@@ -103,6 +403,27 @@ export type Database = {
             referencedRelation: "banks"
             referencedColumns: ["id"]
           },
+          {
+            foreignKeyName: "bets_competition_id_fkey"
+            columns: ["competition_id"]
+            isOneToOne: false
+            referencedRelation: "competitions"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bets_market_type_id_fkey"
+            columns: ["market_type_id"]
+            isOneToOne: false
+            referencedRelation: "market_types"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "bets_sport_id_fkey"
+            columns: ["sport_id"]
+            isOneToOne: false
+            referencedRelation: "sports"
+            referencedColumns: ["id"]
+          },
           {
             foreignKeyName: "bets_user_id_fkey"
             columns: ["user_id"]
@@ -112,33 +433,271 @@ export type Database = {
           },
         ]
       }
+      competitions: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          sport_id: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          sport_id: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          sport_id?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "competitions_sport_id_fkey"
+            columns: ["sport_id"]
+            isOneToOne: false
+            referencedRelation: "sports"
+            referencedColumns: ["id"]
+          },
+          {
+            foreignKeyName: "competitions_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      exchange_rates: {
+        Row: {
+          base_currency: string
+          created_at: string
+          id: string
+          quote_currency: string
+          rate: number
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          base_currency: string
+          created_at?: string
+          id?: string
+          quote_currency: string
+          rate: number
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          base_currency?: string
+          created_at?: string
+          id?: string
+          quote_currency?: string
+          rate?: number
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "exchange_rates_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      market_types: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "market_types_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
       profiles: {
         Row: {
           created_at: string
           id: string
+          odds_format: string
+          reporting_currency: string
           username: string
         }
         Insert: {
           created_at?: string
           id: string
+          odds_format?: string
+          reporting_currency?: string
           username: string
         }
         Update: {
           created_at?: string
           id?: string
+          odds_format?: string
+          reporting_currency?: string
           username?: string
         }
         Relationships: []
       }
+      sports: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          updated_at: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          updated_at?: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          updated_at?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "sports_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
+      tags: {
+        Row: {
+          created_at: string
+          id: string
+          name: string
+          user_id: string
+        }
+        Insert: {
+          created_at?: string
+          id?: string
+          name: string
+          user_id: string
+        }
+        Update: {
+          created_at?: string
+          id?: string
+          name?: string
+          user_id?: string
+        }
+        Relationships: [
+          {
+            foreignKeyName: "tags_user_id_fkey"
+            columns: ["user_id"]
+            isOneToOne: false
+            referencedRelation: "profiles"
+            referencedColumns: ["id"]
+          },
+        ]
+      }
     }
     Views: {
       [_ in never]: never
     }
     Functions: {
-      [_ in never]: never
+      compute_bank_balance: { Args: { p_bank_id: string }; Returns: number }
+      derive_legs_status: {
+        Args: { p_leg_ids: string[] }
+        Returns: Database["public"]["Enums"]["bet_status"]
+      }
+      leg_return_factor: {
+        Args: {
+          leg_odds: number
+          leg_status: Database["public"]["Enums"]["bet_status"]
+        }
+        Returns: number
+      }
+      legs_combined_odds: { Args: { p_leg_ids: string[] }; Returns: number }
+      legs_return_factor: { Args: { p_leg_ids: string[] }; Returns: number }
+      parlay_return_factor: { Args: { p_bet_id: string }; Returns: number }
+      recalculate_bank_balance: { Args: { p_bank_id: string }; Returns: undefined }
+      reconcile_bank: {
+        Args: {
+          p_bank_id: string
+          p_real_balance: number
+          p_reason?: string
+        }
+        Returns: string
+      }
+      reconcile_bank_balances: {
+        Args: { p_fix?: boolean }
+        Returns: {
+          bank_id: string
+          bank_name: string
+          computed_balance: number
+          currency: string
+          difference: number
+          stored_balance: number
+        }[]
+      }
+      restore_backup: {
+        Args: { p_backup: Json; p_replace?: boolean }
+        Returns: undefined
+      }
+      sync_bet_from_legs: { Args: { p_bet_id: string }; Returns: undefined }
+      system_return: { Args: { p_bet_id: string }; Returns: number }
+      transfer_between_banks: {
+        Args: {
+          p_amount: number
+          p_description?: string
+          p_from_bank_id: string
+          p_to_amount?: number
+          p_to_bank_id: string
+          p_transaction_date?: string
+        }
+        Returns: string
+      }
     }
     Enums: {
-      bet_status: "won" | "lost" | "open"
+      bank_transaction_type:
+        | "deposit"
+        | "withdrawal"
+        | "bonus"
+        | "adjustment"
+        | "fee"
+        | "transfer_in"
+        | "transfer_out"
+      bet_status: "won" | "lost" | "open" | "void" | "half_won" | "half_lost" | "cashed_out"
     }
     CompositeTypes: {
       [_ in never]: never
@@ -266,7 +825,16 @@ export type CompositeTypes<
 export const Constants = {
   public: {
     Enums: {
-      bet_status: ["won", "lost", "open"],
+      bank_transaction_type: [
+        "deposit",
+        "withdrawal",
+        "bonus",
+        "adjustment",
+        "fee",
+        "transfer_in",
+        "transfer_out",
+      ],
+      bet_status: ["won", "lost", "open", "void", "half_won", "half_lost", "cashed_out"],
     },
   },
 } as const
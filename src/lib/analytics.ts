@@ -0,0 +1,201 @@
+import { BetStatus } from "./bets";
+
+export interface AnalyticsBet {
+  amount: number;
+  odds: number;
+  status: BetStatus;
+  profit: number | null;
+  bet_date: string;
+  created_at: string;
+}
+
+export interface MonthlyProfit {
+  month: string;
+  bets: number;
+  staked: number;
+  profit: number;
+}
+
+export interface Drawdown {
+  amount: number;
+  peakDate: string | null;
+  troughDate: string | null;
+  // Days from the peak until profit got back to it, null while still under water
+  recoveryDays: number | null;
+}
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const daysBetween = (from: string, to: string) =>
+  Math.round((new Date(to + "T00:00:00").getTime() - new Date(from + "T00:00:00").getTime()) / DAY_MS);
+
+export const sortChronologically = <T extends Pick<AnalyticsBet, "bet_date" | "created_at">>(bets: T[]) =>
+  [...bets].sort((a, b) => a.bet_date.localeCompare(b.bet_date) || a.created_at.localeCompare(b.created_at));
+
+// Longest run of consecutive winning / losing bets; bets returning the stake do not break a run
+export const longestStreaks = (bets: AnalyticsBet[]) => {
+  let wins = 0;
+  let losses = 0;
+  let longestWin = 0;
+  let longestLoss = 0;
+
+  bets.forEach((bet) => {
+    const profit = bet.profit || 0;
+    if (profit > 0) {
+      wins += 1;
+      losses = 0;
+    } else if (profit < 0) {
+      losses += 1;
+      wins = 0;
+    }
+    longestWin = Math.max(longestWin, wins);
+    longestLoss = Math.max(longestLoss, losses);
+  });
+
+  return { longestWin, longestLoss };
+};
+
+// Largest peak-to-trough fall of the cumulative profit curve
+export const maxDrawdown = (bets: AnalyticsBet[]): Drawdown => {
+  let cumulative = 0;
+  let peak = 0;
+  let peakDate = bets[0]?.bet_date ?? null;
+  let worst: Drawdown = { amount: 0, peakDate: null, troughDate: null, recoveryDays: null };
+
+  bets.forEach((bet) => {
+    cumulative += bet.profit || 0;
+
+    if (cumulative >= peak) {
+      if (worst.peakDate && worst.recoveryDays === null) {
+        worst = { ...worst, recoveryDays: daysBetween(worst.peakDate, bet.bet_date) };
+      }
+      peak = cumulative;
+      peakDate = bet.bet_date;
+    } else if (peak - cumulative > worst.amount) {
+      worst = { amount: peak - cumulative, peakDate, troughDate: bet.bet_date, recoveryDays: null };
+    }
+  });
+
+  return worst;
+};
+
+export const profitByMonth = (bets: AnalyticsBet[]): MonthlyProfit[] => {
+  const months = new Map<string, MonthlyProfit>();
+
+  bets.forEach((bet) => {
+    const month = bet.bet_date.slice(0, 7);
+    const entry = months.get(month) || { month, bets: 0, staked: 0, profit: 0 };
+    entry.bets += 1;
+    entry.staked += bet.amount;
+    entry.profit += bet.profit || 0;
+    months.set(month, entry);
+  });
+
+  return [...months.values()].sort((a, b) => a.month.localeCompare(b.month));
+};
+
+// Metrics over settled bets only; open bets have no result yet
+export const computeMetrics = (bets: AnalyticsBet[]) => {
+  const settled = sortChronologically(bets.filter((bet) => bet.status !== "open"));
+  const decided = settled.filter((bet) => bet.status !== "void");
+
+  const staked = settled.reduce((acc, bet) => acc + bet.amount, 0);
+  const profit = settled.reduce((acc, bet) => acc + (bet.profit || 0), 0);
+  const wins = decided.filter((bet) => (bet.profit || 0) > 0).length;
+
+  return {
+    settledCount: settled.length,
+    staked,
+    profit,
+    yield: staked > 0 ? (profit / staked) * 100 : 0,
+    strikeRate: decided.length > 0 ? (wins / decided.length) * 100 : 0,
+    averageOdds: decided.length > 0 ? decided.reduce((acc, bet) => acc + bet.odds, 0) / decided.length : 0,
+    averageStake: settled.length > 0 ? staked / settled.length : 0,
+    ...longestStreaks(decided),
+    drawdown: maxDrawdown(settled),
+    months: profitByMonth(settled),
+  };
+};
+
+export const DEFAULT_ODDS_BAND_LIMITS = [1.5, 2, 3];
+
+export interface OddsBand {
+  label: string;
+  min: number;
+  max: number | null;
+}
+
+// Each limit opens a band that includes its lower bound and excludes the upper one:
+// [1.5, 2] gives 1.00–<1.50, 1.50–<2.00 and 2.00+. Limits are rounded to two decimals like the
+// stored odds, so the labels show the exact bounds.
+export const buildOddsBands = (limits: number[]): OddsBand[] => {
+  const rounded = limits.map((limit) => Math.round(limit * 100) / 100).filter((limit) => limit > 1);
+  const sorted = [...new Set(rounded)].sort((a, b) => a - b);
+  let min = 1;
+  const bands: OddsBand[] = sorted.map((max) => {
+    const band = { label: `${min.toFixed(2)}–<${max.toFixed(2)}`, min, max };
+    min = max;
+    return band;
+  });
+  return [...bands, { label: `${min.toFixed(2)}+`, min, max: null }];
+};
+
+// Accepts a comma or space separated list such as "1.5, 2, 3"
+export const parseOddsBandLimits = (input: string): number[] =>
+  input
+    .split(/[\s,;]+/)
+    .map((value) => parseFloat(value))
+    .filter((value) => !isNaN(value) && value > 1);
+
+export const breakdownByOddsBand = (bets: AnalyticsBet[], bands: OddsBand[]) => {
+  const decided = bets.filter((bet) => bet.status !== "open" && bet.status !== "void");
+
+  return bands.map((band) => {
+    const inBand = decided.filter(
+      (bet) => bet.odds >= band.min && (band.max === null || bet.odds < band.max),
+    );
+    const staked = inBand.reduce((acc, bet) => acc + bet.amount, 0);
+    const profit = inBand.reduce((acc, bet) => acc + (bet.profit || 0), 0);
+    const wins = inBand.filter((bet) => (bet.profit || 0) > 0).length;
+    // The bookmaker's implied probability is the average of 1 / odds
+    const implied = inBand.reduce((acc, bet) => acc + 1 / bet.odds, 0);
+
+    return {
+      band,
+      count: inBand.length,
+      strikeRate: inBand.length > 0 ? (wins / inBand.length) * 100 : 0,
+      impliedRate: inBand.length > 0 ? (implied / inBand.length) * 100 : 0,
+      staked,
+      profit,
+      yield: staked > 0 ? (profit / staked) * 100 : 0,
+    };
+  });
+};
+
+// A bet with several tags counts towards each of them
+export const breakdownByTag = (
+  bets: (AnalyticsBet & { id: string })[],
+  tags: { id: string; name: string }[],
+  betTags: { bet_id: string; tag_id: string }[],
+) => {
+  const settled = new Map(bets.filter((bet) => bet.status !== "open").map((bet) => [bet.id, bet]));
+
+  return tags
+    .map((tag) => {
+      const tagged = betTags
+        .filter((betTag) => betTag.tag_id === tag.id)
+        .flatMap((betTag) => settled.get(betTag.bet_id) ?? []);
+      const staked = tagged.reduce((acc, bet) => acc + bet.amount, 0);
+      const profit = tagged.reduce((acc, bet) => acc + (bet.profit || 0), 0);
+
+      return {
+        tag,
+        count: tagged.length,
+        staked,
+        profit,
+        yield: staked > 0 ? (profit / staked) * 100 : 0,
+      };
+    })
+    .filter((row) => row.count > 0)
+    .sort((a, b) => b.profit - a.profit);
+};
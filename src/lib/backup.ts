@@ -0,0 +1,117 @@
+import { supabase } from "@/integrations/supabase/client";
+import { Json, Tables } from "@/integrations/supabase/types";
+import { fetchAllPages } from "./pagination";
+
+// Bump whenever the document shape changes; restore_backup only accepts versions it knows.
+// Version 2 added the profile's odds_format.
+export const BACKUP_VERSION = 2;
+
+const BACKUP_TABLES = [
+  "banks",
+  "bets",
+  "bet_legs",
+  "bet_combinations",
+  "bet_tags",
+  "bank_transactions",
+  "bank_reconciliations",
+  "sports",
+  "competitions",
+  "market_types",
+  "tags",
+  "exchange_rates",
+] as const;
+
+type BackupTable = (typeof BACKUP_TABLES)[number];
+
+export type Backup = {
+  version: number;
+  exported_at: string;
+  // odds_format is missing from version 1 files
+  profile: Pick<Tables<"profiles">, "username" | "reporting_currency"> & Partial<Pick<Tables<"profiles">, "odds_format">>;
+} & { [T in BackupTable]: Tables<T>[] };
+
+export type RestoreMode = "merge" | "replace";
+
+// Rows written in one transaction or import share created_at, so paging also needs a unique
+// tie-breaker; bet_tags has no id and is keyed by the pair
+const tieBreakers = (table: BackupTable) => (table === "bet_tags" ? ["bet_id", "tag_id"] : ["id"]);
+
+const fetchAll = async <T extends BackupTable>(table: T) => {
+  const rows = await fetchAllPages((from, to) =>
+    tieBreakers(table)
+      .reduce(
+        (query, column) => query.order(column, { ascending: true }),
+        supabase.from(table).select("*").order("created_at", { ascending: true }),
+      )
+      .range(from, to),
+  );
+  return rows as unknown as Tables<T>[];
+};
+
+// RLS limits every query to the signed-in user, so this is the whole account
+export const createBackup = async (userId: string): Promise<Backup> => {
+  const { data: profile, error } = await supabase
+    .from("profiles")
+    .select("username, reporting_currency, odds_format")
+    .eq("id", userId)
+    .single();
+  if (error) throw error;
+
+  const backup = {
+    version: BACKUP_VERSION,
+    exported_at: new Date().toISOString(),
+    profile,
+  } as Backup;
+
+  for (const table of BACKUP_TABLES) {
+    Object.assign(backup, { [table]: await fetchAll(table) });
+  }
+
+  return backup;
+};
+
+export const downloadBackup = (backup: Backup) => {
+  const url = URL.createObjectURL(new Blob([JSON.stringify(backup, null, 2)], { type: "application/json" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = `copia-seguridad-${backup.exported_at.split("T")[0]}.json`;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Checks the shape of an uploaded file before anything is sent to the database
+export const parseBackup = (text: string): Backup => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(text);
+  } catch {
+    throw new Error("El archivo no es un JSON válido");
+  }
+
+  if (typeof parsed !== "object" || parsed === null || !("version" in parsed)) {
+    throw new Error("El archivo no es una copia de seguridad");
+  }
+
+  const { version } = parsed as { version: unknown };
+  if (typeof version !== "number" || !Number.isInteger(version) || version < 1) {
+    throw new Error("La copia de seguridad no indica una versión válida");
+  }
+  if (version > BACKUP_VERSION) {
+    throw new Error(`La copia es de una versión más reciente (v${version}) que la de la aplicación (v${BACKUP_VERSION})`);
+  }
+
+  const missing = BACKUP_TABLES.filter((table) => !Array.isArray((parsed as Record<string, unknown>)[table]));
+  if (missing.length > 0) {
+    throw new Error(`Faltan datos en la copia de seguridad: ${missing.join(", ")}`);
+  }
+
+  return parsed as Backup;
+};
+
+export const restoreBackup = async (backup: Backup, mode: RestoreMode) => {
+  const { error } = await supabase.rpc("restore_backup", {
+    p_backup: backup as unknown as Json,
+    p_replace: mode === "replace",
+  });
+  if (error) throw error;
+};
@@ -0,0 +1,60 @@
+export type ChartRange = "7d" | "30d" | "90d" | "ytd" | "all";
+
+export const CHART_RANGES: { value: ChartRange; label: string }[] = [
+  { value: "7d", label: "7 días" },
+  { value: "30d", label: "30 días" },
+  { value: "90d", label: "90 días" },
+  { value: "ytd", label: "Este año" },
+  { value: "all", label: "Todo" },
+];
+
+export interface BalanceEvent {
+  date: string;
+  amount: number;
+}
+
+export interface BalancePoint {
+  date: string;
+  balance: number;
+}
+
+const toDateString = (date: Date) => date.toISOString().split("T")[0];
+
+// First day included in the range, or null when the whole history is shown
+export const rangeStartDate = (range: ChartRange, today = new Date()): string | null => {
+  if (range === "all") return null;
+  if (range === "ytd") return `${today.getFullYear()}-01-01`;
+
+  const days = parseInt(range);
+  const start = new Date(today);
+  start.setDate(start.getDate() - (days - 1));
+  return toDateString(start);
+};
+
+// One point per day with activity, holding the balance at the end of that day
+export const buildBalanceSeries = (startingBalance: number, events: BalanceEvent[]): BalancePoint[] => {
+  const byDate = new Map<string, number>();
+  events.forEach((event) => byDate.set(event.date, (byDate.get(event.date) || 0) + event.amount));
+
+  let balance = startingBalance;
+  return [...byDate.keys()].sort().map((date) => {
+    balance += byDate.get(date) || 0;
+    return { date, balance };
+  });
+};
+
+// Restricts a series to the range, opening it with the balance carried over from before the start
+export const sliceSeries = (
+  series: BalancePoint[],
+  startingBalance: number,
+  start: string | null,
+): BalancePoint[] => {
+  if (!start) return series;
+
+  const before = series.filter((point) => point.date < start);
+  const opening = before.length > 0 ? before[before.length - 1].balance : startingBalance;
+  const inRange = series.filter((point) => point.date >= start);
+
+  if (inRange.length > 0 && inRange[0].date === start) return inRange;
+  return [{ date: start, balance: opening }, ...inRange];
+};
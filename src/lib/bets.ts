@@ -0,0 +1,149 @@
+import type { Enums } from "@/integrations/supabase/types";
+
+export type BetStatus = Enums<"bet_status">;
+
+export const BET_STATUS_LABELS: Record<BetStatus, string> = {
+  open: "Abierta",
+  won: "Ganada",
+  half_won: "Medio ganada",
+  lost: "Perdida",
+  half_lost: "Medio perdida",
+  void: "Anulada",
+  cashed_out: "Cash out",
+};
+
+export const BET_STATUS_PLURAL_LABELS: Record<BetStatus, string> = {
+  open: "Abiertas",
+  won: "Ganadas",
+  half_won: "Medio ganadas",
+  lost: "Perdidas",
+  half_lost: "Medio perdidas",
+  void: "Anuladas",
+  cashed_out: "Cash out",
+};
+
+export const BET_STATUSES = Object.keys(BET_STATUS_LABELS) as BetStatus[];
+
+export const isWinningStatus = (status: BetStatus) =>
+  status === "won" || status === "half_won";
+
+export const isLosingStatus = (status: BetStatus) =>
+  status === "lost" || status === "half_lost";
+
+export type BetType = "simple" | "parlay" | "system";
+
+export const BET_TYPE_LABELS: Record<BetType, string> = {
+  simple: "Simple",
+  parlay: "Combinada",
+  system: "Sistema",
+};
+
+export const LEG_STATUSES = BET_STATUSES.filter((status) => status !== "cashed_out");
+
+export interface BetLeg {
+  id: string;
+  position: number;
+  event: string;
+  selection: string;
+  odds: number;
+  status: BetStatus;
+}
+
+export interface LegDraft {
+  event: string;
+  selection: string;
+  odds: string;
+  status: BetStatus;
+}
+
+export const emptyLeg = (): LegDraft => ({
+  event: "",
+  selection: "",
+  odds: "",
+  status: "open",
+});
+
+type LegResult = Pick<BetLeg, "odds" | "status">;
+
+// Mirrors public.leg_return_factor in the database
+export const legReturnFactor = ({ odds, status }: LegResult) => {
+  switch (status) {
+    case "won":
+      return odds;
+    case "half_won":
+      return (odds + 1) / 2;
+    case "lost":
+      return 0;
+    case "half_lost":
+      return 0.5;
+    default:
+      return 1;
+  }
+};
+
+export const combineOdds = (legs: LegResult[]) =>
+  legs.filter((leg) => leg.status !== "void").reduce((acc, leg) => acc * leg.odds, 1);
+
+// Mirrors public.derive_legs_status in the database
+export const deriveParlayStatus = (legs: LegResult[]): BetStatus => {
+  if (legs.some((leg) => leg.status === "lost")) return "lost";
+  if (legs.length === 0 || legs.some((leg) => leg.status === "open")) return "open";
+  if (legs.every((leg) => leg.status === "void")) return "void";
+  const factor = legs.reduce((acc, leg) => acc * legReturnFactor(leg), 1);
+  return factor >= 1 ? "won" : "lost";
+};
+
+export const sortLegs = <T extends Pick<BetLeg, "position">>(legs: T[]) =>
+  [...legs].sort((a, b) => a.position - b.position);
+
+export interface BetCombination {
+  id: string;
+  leg_ids: string[];
+  stake: number;
+  odds: number;
+  status: BetStatus;
+}
+
+export const isMultiLegBet = (betType: string) => betType === "parlay" || betType === "system";
+
+type StakedBet = {
+  amount: number;
+  status: BetStatus;
+  profit: number | null;
+  cashout_stake?: number | null;
+};
+
+// ROI is measured on the money actually staked, so deposits and withdrawals do not distort it.
+// Exposure is the stake still running on open bets.
+export const summarizeStakes = (bets: StakedBet[]) => {
+  const { staked, profit, exposure } = bets.reduce(
+    (acc, bet) => {
+      acc.staked += bet.status === "open" ? bet.cashout_stake || 0 : bet.amount;
+      acc.profit += bet.profit || 0;
+      if (bet.status === "open") acc.exposure += bet.amount - (bet.cashout_stake || 0);
+      return acc;
+    },
+    { staked: 0, profit: 0, exposure: 0 },
+  );
+  return { staked, profit, exposure, roi: staked > 0 ? (profit / staked) * 100 : 0 };
+};
+
+export interface BetDraft {
+  bankId: string;
+  amount: number;
+  odds: number;
+  status: BetStatus;
+  cashoutAmount: number;
+  hasLegs: boolean;
+}
+
+// Field rules shared by the bet form and the CSV import; returns the first error message
+export const validateBet = ({ bankId, amount, odds, status, cashoutAmount, hasLegs }: BetDraft) => {
+  if (isNaN(amount) || amount <= 0) return "El monto debe ser un número positivo";
+  if (isNaN(odds) || odds < 1) return "La cuota debe ser mayor o igual a 1";
+  if (!hasLegs && status === "cashed_out" && (isNaN(cashoutAmount) || cashoutAmount < 0)) {
+    return "El importe cobrado debe ser un número positivo";
+  }
+  if (!bankId) return "Debes seleccionar un bank";
+  return null;
+};
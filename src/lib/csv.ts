@@ -0,0 +1,123 @@
+export interface CsvFormat {
+  label: string;
+  delimiter: string;
+  decimal: string;
+}
+
+// Spanish-locale Excel expects ";" between fields because "," is the decimal separator
+export const CSV_FORMATS = {
+  excel_es: { label: "Excel en español (; y coma decimal)", delimiter: ";", decimal: "," },
+  standard: { label: "Estándar (, y punto decimal)", delimiter: ",", decimal: "." },
+} satisfies Record<string, CsvFormat>;
+
+export type CsvFormatKey = keyof typeof CSV_FORMATS;
+
+export const detectCsvFormat = (): CsvFormatKey =>
+  (1.5).toLocaleString(navigator.language).includes(",") ? "excel_es" : "standard";
+
+export type CsvValue = string | number | boolean | null | undefined;
+
+// Spreadsheets run text starting with these characters as a formula
+const FORMULA_PREFIX = /^[=+\-@\t\r]/;
+
+const formatCsvValue = (value: CsvValue, { delimiter, decimal }: CsvFormat) => {
+  if (value === null || value === undefined) return "";
+
+  const text =
+    typeof value === "number"
+      ? String(value).replace(".", decimal)
+      : String(value).replace(FORMULA_PREFIX, "'$&");
+  return text.includes(delimiter) || /["\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+export const toCsv = (headers: string[], rows: CsvValue[][], format: CsvFormat) =>
+  [headers, ...rows].map((row) => row.map((value) => formatCsvValue(value, format)).join(format.delimiter)).join("\r\n");
+
+// The BOM makes Excel open the file as UTF-8 instead of the system code page
+export const downloadCsv = (filename: string, content: string) => {
+  const url = URL.createObjectURL(new Blob(["\uFEFF", content], { type: "text/csv;charset=utf-8" }));
+  const link = document.createElement("a");
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+// Picks whichever candidate delimiter splits one of the first lines into the most fields, so a
+// title or account summary above the header row does not throw the detection off
+export const detectDelimiter = (text: string) => {
+  const lines = text.split(/\r?\n/, 20);
+  const widest = (delimiter: string) => Math.max(...lines.map((line) => line.split(delimiter).length));
+  return [";", ",", "\t"].reduce((best, candidate) => (widest(candidate) > widest(best) ? candidate : best));
+};
+
+// RFC 4180 parsing: quoted fields may contain delimiters, doubled quotes and line breaks
+export const parseCsv = (text: string, delimiter: string) => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = "";
+  let quoted = false;
+
+  // Skip the BOM that Excel (and downloadCsv) put at the start of the file
+  for (let i = text.startsWith("\uFEFF") ? 1 : 0; i < text.length; i++) {
+    const char = text[i];
+
+    if (quoted) {
+      if (char === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        field += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === delimiter) {
+      row.push(field);
+      field = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && text[i + 1] === "\n") i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = "";
+    } else {
+      field += char;
+    }
+  }
+
+  if (field || row.length > 0) {
+    row.push(field);
+    rows.push(row);
+  }
+
+  return rows.filter((cells) => cells.some((cell) => cell.trim()));
+};
+
+// Picks the decimal separator used by most amounts with cents ("12,50" against "12.50");
+// the fallback decides when the file has no such values
+export const detectDecimal = (rows: string[][], fallback: string) => {
+  let comma = 0;
+  let point = 0;
+  rows.forEach((cells) =>
+    cells.forEach((cell) => {
+      const cleaned = cell.replace(/[^\d.,-]/g, "");
+      if (/\d,\d{1,2}$/.test(cleaned)) comma++;
+      if (/\d\.\d{1,2}$/.test(cleaned)) point++;
+    }),
+  );
+  return comma === point ? fallback : comma > point ? "," : ".";
+};
+
+// Accepts "1.234,56" or "1,234.56" style numbers and ignores currency symbols. The other
+// separator is only read as a thousands mark when it groups digits in threes, so "1.85"
+// still parses as 1.85 in a file that uses the decimal comma.
+export const parseCsvNumber = (value: string, decimal: string) => {
+  const cleaned = value.replace(/[^\d.,-]/g, "");
+  const other = decimal === "," ? "." : ",";
+  const grouped = new RegExp(`^-?\\d{1,3}(\\${other}\\d{3})+(\\${decimal}\\d*)?$`).test(cleaned);
+  const separator = cleaned.includes(decimal) || grouped ? decimal : other;
+  const thousands = separator === "," ? "." : ",";
+  return parseFloat(cleaned.split(thousands).join("").replace(separator, "."));
+};
@@ -0,0 +1,60 @@
+export const DEFAULT_CURRENCY = "USD";
+
+export const CURRENCIES = ["EUR", "USD", "GBP", "CHF", "MXN", "ARS", "COP", "CLP", "PEN", "BRL"];
+
+export interface ExchangeRate {
+  id: string;
+  base_currency: string;
+  quote_currency: string;
+  rate: number;
+}
+
+export const formatMoney = (
+  amount: number,
+  currency = DEFAULT_CURRENCY,
+  { signed = false }: { signed?: boolean } = {},
+) =>
+  new Intl.NumberFormat(undefined, {
+    style: "currency",
+    currency,
+    minimumFractionDigits: 2,
+    maximumFractionDigits: 2,
+    signDisplay: signed ? "exceptZero" : "auto",
+  }).format(amount);
+
+// Uses the direct rate or its inverse; returns null when the user has not entered one
+export const convertAmount = (
+  amount: number,
+  from: string,
+  to: string,
+  rates: Pick<ExchangeRate, "base_currency" | "quote_currency" | "rate">[],
+): number | null => {
+  if (from === to) return amount;
+
+  const direct = rates.find((r) => r.base_currency === from && r.quote_currency === to);
+  if (direct) return amount * direct.rate;
+
+  const inverse = rates.find((r) => r.base_currency === to && r.quote_currency === from);
+  if (inverse) return amount / inverse.rate;
+
+  return null;
+};
+
+// Sums amounts in several currencies, reporting which ones could not be converted
+export const sumInCurrency = (
+  items: { amount: number; currency: string }[],
+  to: string,
+  rates: Pick<ExchangeRate, "base_currency" | "quote_currency" | "rate">[],
+) =>
+  items.reduce(
+    (acc, item) => {
+      const converted = convertAmount(item.amount, item.currency, to, rates);
+      if (converted === null) {
+        if (!acc.missing.includes(item.currency)) acc.missing.push(item.currency);
+      } else {
+        acc.total += converted;
+      }
+      return acc;
+    },
+    { total: 0, missing: [] as string[] },
+  );
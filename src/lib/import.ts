@@ -0,0 +1,174 @@
+import { BET_STATUS_LABELS, BET_STATUSES, BetStatus, validateBet } from "./bets";
+import { parseCsvNumber } from "./csv";
+
+// A parsed statement or spreadsheet: the header row and the data rows below it
+export interface ImportTable {
+  headers: string[];
+  rows: string[][];
+  // Position of the first data row among the file's non-empty rows, used to point at rows with errors
+  firstLine?: number;
+}
+
+export type ImportField = "bet_date" | "amount" | "odds" | "status" | "cashout_amount" | "description" | "bank";
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required: boolean; hints: string[] }[] = [
+  { field: "bet_date", label: "Fecha", required: true, hints: ["fecha", "date", "dia"] },
+  { field: "amount", label: "Monto", required: true, hints: ["monto", "importe", "stake", "apostado", "amount"] },
+  { field: "odds", label: "Cuota", required: true, hints: ["cuota", "odds", "momio"] },
+  { field: "status", label: "Resultado", required: false, hints: ["resultado", "estado", "status", "result"] },
+  { field: "cashout_amount", label: "Importe Cobrado", required: false, hints: ["cobrado", "cashout"] },
+  { field: "description", label: "Descripción", required: false, hints: ["descrip", "evento", "event", "partido"] },
+  { field: "bank", label: "Bank", required: false, hints: ["bank", "casa", "bookmaker", "operador"] },
+];
+
+export type ImportMapping = Record<ImportField, number | null>;
+
+const normalize = (value: string) =>
+  value
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .trim()
+    .toLowerCase();
+
+// Guesses a column for each field from the header names; every column is used at most once
+export const guessMapping = (headers: string[]) => {
+  const names = headers.map(normalize);
+  const used = new Set<number>();
+
+  return IMPORT_FIELDS.reduce((mapping, { field, hints }) => {
+    const index = names.findIndex((name, i) => !used.has(i) && hints.some((hint) => name.includes(hint)));
+    if (index >= 0) used.add(index);
+    mapping[field] = index >= 0 ? index : null;
+    return mapping;
+  }, {} as ImportMapping);
+};
+
+const STATUS_ALIASES: Record<string, BetStatus> = {
+  ...Object.fromEntries(BET_STATUSES.map((status) => [normalize(BET_STATUS_LABELS[status]), status])),
+  ...Object.fromEntries(BET_STATUSES.map((status) => [status.replace("_", " "), status])),
+  pendiente: "open",
+  ganada: "won",
+  ganado: "won",
+  win: "won",
+  w: "won",
+  perdida: "lost",
+  perdido: "lost",
+  lose: "lost",
+  loss: "lost",
+  l: "lost",
+  nula: "void",
+  nulo: "void",
+  anulado: "void",
+  push: "void",
+  devuelta: "void",
+  cashout: "cashed_out",
+  "cash-out": "cashed_out",
+  "cashed out": "cashed_out",
+};
+
+export const parseImportStatus = (value: string): BetStatus | null => {
+  if (!value.trim()) return "open";
+  return STATUS_ALIASES[normalize(value).replace(/_/g, " ")] || null;
+};
+
+// Accepts ISO dates and day-first dates (31/12/2024, 31-12-24, 31.12.2024)
+export const parseImportDate = (value: string) => {
+  const trimmed = value.trim();
+  const iso = trimmed.match(/^(\d{4})-(\d{1,2})-(\d{1,2})/);
+  const dayFirst = trimmed.match(/^(\d{1,2})[/.-](\d{1,2})[/.-](\d{2}|\d{4})\b/);
+
+  const parts = iso
+    ? { year: +iso[1], month: +iso[2], day: +iso[3] }
+    : dayFirst
+      ? { year: +dayFirst[3] + (dayFirst[3].length === 2 ? 2000 : 0), month: +dayFirst[2], day: +dayFirst[1] }
+      : null;
+  if (!parts) return null;
+
+  const date = new Date(Date.UTC(parts.year, parts.month - 1, parts.day));
+  if (date.getUTCMonth() !== parts.month - 1 || date.getUTCDate() !== parts.day) return null;
+  return date.toISOString().split("T")[0];
+};
+
+export interface ImportRow {
+  line: number;
+  bankId: string;
+  bankName: string;
+  bet_date: string;
+  amount: number;
+  odds: number;
+  status: BetStatus;
+  cashout_amount: number;
+  description: string;
+  errors: string[];
+  duplicate: boolean;
+}
+
+interface BuildOptions {
+  mapping: ImportMapping;
+  decimal: string;
+  banks: { id: string; name: string }[];
+  defaultBankId: string;
+}
+
+export const buildImportRows = (table: ImportTable, { mapping, decimal, banks, defaultBankId }: BuildOptions) =>
+  table.rows.map((cells, index): ImportRow => {
+    const cell = (field: ImportField) => {
+      const column = mapping[field];
+      return column === null ? "" : (cells[column] || "").trim();
+    };
+    const errors: string[] = [];
+
+    const bankValue = cell("bank");
+    const bank = bankValue
+      ? banks.find((b) => normalize(b.name) === normalize(bankValue))
+      : banks.find((b) => b.id === defaultBankId);
+    if (bankValue && !bank) errors.push(`Bank desconocido: ${bankValue}`);
+
+    const betDate = parseImportDate(cell("bet_date"));
+    if (!betDate) errors.push("Fecha no válida");
+
+    const status = parseImportStatus(cell("status"));
+    if (!status) errors.push(`Resultado desconocido: ${cell("status")}`);
+
+    const row = {
+      line: (table.firstLine ?? 2) + index,
+      bankId: bank?.id || "",
+      bankName: bank?.name || bankValue,
+      bet_date: betDate || cell("bet_date"),
+      amount: parseCsvNumber(cell("amount"), decimal),
+      odds: parseCsvNumber(cell("odds"), decimal),
+      status: status || "open",
+      cashout_amount: parseCsvNumber(cell("cashout_amount"), decimal),
+      description: cell("description"),
+      duplicate: false,
+    };
+
+    // An unknown bank name is reported above, so here it only has to be present
+    const validationError = validateBet({
+      bankId: row.bankId || bankValue,
+      amount: row.amount,
+      odds: row.odds,
+      status: row.status,
+      cashoutAmount: row.cashout_amount,
+      hasLegs: false,
+    });
+    if (validationError) errors.push(validationError);
+
+    return { ...row, errors };
+  });
+
+// Bets are considered the same when bank, date, stake and odds all match
+export const duplicateKey = (bet: { bank_id: string; bet_date: string; amount: number; odds: number }) =>
+  [bet.bank_id, bet.bet_date, bet.amount.toFixed(2), bet.odds.toFixed(2)].join("|");
+
+// Flags rows that match an existing bet or an earlier row of the same file
+export const markDuplicates = (rows: ImportRow[], existingKeys: Set<string>) => {
+  const seen = new Set(existingKeys);
+  return rows.map((row) => {
+    if (row.errors.length > 0) return row;
+    const key = duplicateKey({ bank_id: row.bankId, bet_date: row.bet_date, amount: row.amount, odds: row.odds });
+    const duplicate = seen.has(key);
+    seen.add(key);
+    return { ...row, duplicate };
+  });
+};
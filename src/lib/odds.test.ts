@@ -0,0 +1,73 @@
+import { describe, expect, it } from "vitest";
+import { formatOdds, isOddsFormat, parseOdds } from "./odds";
+
+describe("parseOdds", () => {
+  it("reads decimal odds with either decimal separator", () => {
+    expect(parseOdds("2.5")).toBe(2.5);
+    expect(parseOdds(" 2,5 ")).toBe(2.5);
+    expect(parseOdds("1")).toBe(1);
+  });
+
+  it("reads fractional odds", () => {
+    expect(parseOdds("5/2")).toBe(3.5);
+    expect(parseOdds("10 / 11")).toBeCloseTo(1.909, 3);
+    expect(parseOdds("0/1")).toBe(1);
+  });
+
+  it("reads signed numbers as American odds", () => {
+    expect(parseOdds("+150")).toBe(2.5);
+    expect(parseOdds("-200")).toBe(1.5);
+  });
+
+  it("reads unsigned prices of 100 or more as American only when preferred", () => {
+    expect(parseOdds("150", "american")).toBe(2.5);
+    expect(parseOdds("150")).toBe(150);
+    expect(parseOdds("1.5", "american")).toBe(1.5);
+  });
+
+  it("returns NaN for malformed input", () => {
+    expect(parseOdds("")).toBeNaN();
+    expect(parseOdds("abc")).toBeNaN();
+    expect(parseOdds("5/0")).toBeNaN();
+    expect(parseOdds("5/2/1")).toBeNaN();
+    expect(parseOdds("+50")).toBeNaN();
+  });
+});
+
+describe("formatOdds", () => {
+  it("shows decimal odds with two decimals", () => {
+    expect(formatOdds(2.5)).toBe("2.50");
+  });
+
+  it("uses the smallest denominator for fractional odds", () => {
+    expect(formatOdds(3.5, "fractional")).toBe("5/2");
+    expect(formatOdds(1.91, "fractional")).toBe("10/11");
+    expect(formatOdds(2, "fractional")).toBe("1/1");
+  });
+
+  it("signs American odds by favourite or underdog", () => {
+    expect(formatOdds(2.5, "american")).toBe("+150");
+    expect(formatOdds(2, "american")).toBe("+100");
+    expect(formatOdds(1.5, "american")).toBe("-200");
+  });
+
+  it("falls back to decimal for odds that return only the stake", () => {
+    expect(formatOdds(1, "fractional")).toBe("1.00");
+    expect(formatOdds(1, "american")).toBe("1.00");
+  });
+
+  it("gives back the same odds when parsed again", () => {
+    for (const odds of [1.25, 1.91, 2.1, 3.75]) {
+      expect(parseOdds(formatOdds(odds, "fractional"), "fractional")).toBeCloseTo(odds, 2);
+      expect(parseOdds(formatOdds(odds, "american"), "american")).toBeCloseTo(odds, 2);
+    }
+  });
+});
+
+describe("isOddsFormat", () => {
+  it("accepts only the known formats", () => {
+    expect(isOddsFormat("american")).toBe(true);
+    expect(isOddsFormat("toString")).toBe(false);
+    expect(isOddsFormat("constructor")).toBe(false);
+  });
+});
@@ -0,0 +1,67 @@
+export type OddsFormat = "decimal" | "fractional" | "american";
+
+export const DEFAULT_ODDS_FORMAT: OddsFormat = "decimal";
+
+export const ODDS_FORMAT_LABELS: Record<OddsFormat, string> = {
+  decimal: "Decimal (2.50)",
+  fractional: "Fraccional (3/2)",
+  american: "Americana (+150)",
+};
+
+export const ODDS_FORMATS = Object.keys(ODDS_FORMAT_LABELS) as OddsFormat[];
+
+export const ODDS_PLACEHOLDERS: Record<OddsFormat, string> = {
+  decimal: "2.50",
+  fractional: "3/2",
+  american: "+150",
+};
+
+export const isOddsFormat = (value: string): value is OddsFormat => ODDS_FORMATS.includes(value as OddsFormat);
+
+// Reads odds written in any format and returns them as decimal odds, or NaN when the input
+// is not valid: "5/2" is fractional, a leading sign ("+150", "-200") marks American odds and
+// anything else is decimal ("2.5" or "2,5"). Users who prefer American odds may leave out the
+// "+" of underdog prices, so for them an unsigned number of 100 or more is read as American.
+export const parseOdds = (input: string, preferred: OddsFormat = DEFAULT_ODDS_FORMAT) => {
+  const value = input.trim().replace(",", ".");
+
+  const fraction = value.match(/^(\d+(?:\.\d+)?)\s*\/\s*(\d+(?:\.\d+)?)$/);
+  if (fraction) {
+    const denominator = parseFloat(fraction[2]);
+    return denominator > 0 ? 1 + parseFloat(fraction[1]) / denominator : NaN;
+  }
+
+  if (!/^[+-]?\d+(\.\d+)?$/.test(value)) return NaN;
+
+  const number = parseFloat(value);
+  const american = /^[+-]/.test(value) || (preferred === "american" && number >= 100);
+  if (!american) return number;
+
+  // American prices are never between -100 and +100
+  if (Math.abs(number) < 100) return NaN;
+  return number > 0 ? 1 + number / 100 : 1 + 100 / -number;
+};
+
+// Smallest-denominator fraction that gives back the stored (two-decimal) odds, so 1.91 shows
+// as the familiar 10/11 rather than 91/100
+const toFraction = (decimal: number) => {
+  const target = Math.round(decimal * 100);
+  const profit = decimal - 1;
+
+  for (let denominator = 1; denominator <= 100; denominator++) {
+    const numerator = Math.round(profit * denominator);
+    if (numerator > 0 && Math.round((1 + numerator / denominator) * 100) === target) {
+      return `${numerator}/${denominator}`;
+    }
+  }
+  return `${Math.round(profit * 100)}/100`;
+};
+
+export const formatOdds = (decimal: number, format: OddsFormat = DEFAULT_ODDS_FORMAT) => {
+  // Fractional and American odds cannot express a price that returns only the stake
+  if (format === "decimal" || decimal <= 1) return decimal.toFixed(2);
+  if (format === "fractional") return toFraction(decimal);
+  return decimal >= 2
+    ? `+${Math.round((decimal - 1) * 100)}`
+    : `-${Math.round(100 / (decimal - 1))}`;
+};
@@ -0,0 +1,19 @@
+import { PostgrestError } from "@supabase/supabase-js";
+
+// Supabase caps each response at this many rows
+export const PAGE_SIZE = 1000;
+
+type PageResult<T> = { data: T[] | null; error: PostgrestError | null };
+
+// Runs the query built by fetchPage for consecutive row ranges until a short page comes back.
+// The query needs a stable order, otherwise rows can repeat or go missing between pages.
+export const fetchAllPages = async <T>(fetchPage: (from: number, to: number) => PromiseLike<PageResult<T>>) => {
+  const rows: T[] = [];
+  for (let page = 0; ; page++) {
+    const { data, error } = await fetchPage(page * PAGE_SIZE, (page + 1) * PAGE_SIZE - 1);
+    if (error) throw error;
+    rows.push(...(data || []));
+    if (!data || data.length < PAGE_SIZE) break;
+  }
+  return rows;
+};
@@ -0,0 +1,37 @@
+import { describe, expect, it } from "vitest";
+import statement from "./__fixtures__/statement.csv?raw";
+import { csvStatementParser } from "./csv";
+import { parseStatement } from ".";
+
+describe("csvStatementParser", () => {
+  it("finds the header below the account summary", () => {
+    const { table, decimal } = parseStatement(csvStatementParser, statement, { delimiter: "auto", headerRow: null });
+
+    expect(table.headers).toEqual(["Fecha", "Evento", "Importe", "Cuota", "Resultado", "Ganancia"]);
+    expect(table.rows).toHaveLength(3);
+    expect(table.firstLine).toBe(4);
+    expect(decimal).toBe(",");
+  });
+
+  it("keeps quoted delimiters inside their field", () => {
+    const { table } = parseStatement(csvStatementParser, statement, { delimiter: "auto", headerRow: null });
+
+    expect(table.rows[0]).toEqual(["03/01/2026", "Real Madrid vs Barcelona; 1X2", "10,00", "2,10", "Ganada", "21,00"]);
+    expect(table.rows[2][1]).toBe("Lakers vs Celtics, Over 210,5");
+  });
+
+  it("uses the header row and delimiter it is given", () => {
+    const { table } = parseStatement(csvStatementParser, statement, { delimiter: ";", headerRow: 2 });
+
+    expect(table.headers).toEqual(["Periodo: 01/01/2026 - 31/01/2026"]);
+    expect(table.rows).toHaveLength(4);
+  });
+
+  it("falls back to the decimal point when commas separate the fields", () => {
+    const text = "Fecha,Importe,Cuota\n2026-01-03,10,2\n2026-01-05,25,3\n";
+    const { table, decimal } = parseStatement(csvStatementParser, text, { delimiter: "auto", headerRow: null });
+
+    expect(table.headers).toEqual(["Fecha", "Importe", "Cuota"]);
+    expect(decimal).toBe(".");
+  });
+});
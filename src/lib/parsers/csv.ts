@@ -0,0 +1,12 @@
+import { detectDelimiter, parseCsv } from "../csv";
+import { StatementParser } from "./types";
+
+// Any delimited text export: the delimiter is detected from the header unless one is forced
+export const csvStatementParser: StatementParser = {
+  id: "csv",
+  label: "CSV / texto delimitado",
+  accept: [".csv", ".txt", "text/csv", "text/plain"],
+  delimited: true,
+  detect: () => true,
+  parse: (text, { delimiter }) => parseCsv(text, delimiter === "auto" ? detectDelimiter(text) : delimiter),
+};
@@ -0,0 +1,26 @@
+// @vitest-environment jsdom
+import { describe, expect, it } from "vitest";
+import statement from "./__fixtures__/statement.html?raw";
+import { htmlStatementParser } from "./html";
+import { detectStatementParser, parseStatement } from ".";
+
+describe("htmlStatementParser", () => {
+  it("is picked for a saved history page", () => {
+    expect(detectStatementParser(statement)).toBe(htmlStatementParser);
+  });
+
+  it("reads the largest table and skips empty rows", () => {
+    const { table, decimal } = parseStatement(htmlStatementParser, statement, { delimiter: "auto", headerRow: null });
+
+    expect(table.headers).toEqual(["Fecha", "Evento", "Importe", "Cuota", "Resultado"]);
+    expect(table.rows).toHaveLength(3);
+    expect(decimal).toBe(",");
+  });
+
+  it("collapses whitespace and pads cells spanning several columns", () => {
+    const { table } = parseStatement(htmlStatementParser, statement, { delimiter: "auto", headerRow: null });
+
+    expect(table.rows[0]).toEqual(["03/01/2026", "Real Madrid vs Barcelona 1X2", "10,00 €", "2,10", "Ganada"]);
+    expect(table.rows[1]).toEqual(["05/01/2026", "Apuesta anulada", "", "1,85", "Nula"]);
+  });
+});
@@ -0,0 +1,26 @@
+import { StatementParser } from "./types";
+
+const cellText = (cell: Element) => (cell.textContent || "").replace(/\s+/g, " ").trim();
+
+// A history page saved from the browser: the bets are read from its largest <table>.
+// Cells spanning several columns are padded so the columns stay aligned with the header.
+export const htmlStatementParser: StatementParser = {
+  id: "html",
+  label: "Página HTML guardada",
+  accept: [".html", ".htm", "text/html"],
+  delimited: false,
+  detect: (text) => /<table[\s>]/i.test(text),
+  parse: (text) => {
+    const page = new DOMParser().parseFromString(text, "text/html");
+    const tables = Array.from(page.querySelectorAll("table"));
+    if (tables.length === 0) return [];
+
+    const largest = tables.reduce((best, table) => (table.rows.length > best.rows.length ? table : best));
+
+    return Array.from(largest.rows)
+      .map((row) =>
+        Array.from(row.cells).flatMap((cell) => [cellText(cell), ...Array(Math.max(cell.colSpan - 1, 0)).fill("")]),
+      )
+      .filter((cells) => cells.some(Boolean));
+  },
+};
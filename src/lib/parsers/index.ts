@@ -0,0 +1,49 @@
+import { detectDecimal, detectDelimiter } from "../csv";
+import { ImportTable } from "../import";
+import { csvStatementParser } from "./csv";
+import { htmlStatementParser } from "./html";
+import { StatementDelimiter, StatementOptions, StatementParser } from "./types";
+
+export type { StatementDelimiter, StatementOptions, StatementParser } from "./types";
+
+// Checked in order by detectStatementParser; the CSV parser accepts anything, so it goes last
+export const STATEMENT_PARSERS: StatementParser[] = [htmlStatementParser, csvStatementParser];
+
+export const STATEMENT_ACCEPT = STATEMENT_PARSERS.flatMap((parser) => parser.accept).join(",");
+
+export const detectStatementParser = (text: string) =>
+  STATEMENT_PARSERS.find((parser) => parser.detect(text)) || csvStatementParser;
+
+// Statements often start with a title or an account summary: the header is taken to be the
+// first row that fills at least half as many cells as the widest row
+const findHeaderRow = (grid: string[][]) => {
+  const filled = grid.map((cells) => cells.filter((cell) => cell.trim()).length);
+  const widest = Math.max(0, ...filled);
+  return filled.findIndex((count) => count >= 2 && count * 2 >= widest);
+};
+
+export interface ParsedStatement {
+  table: ImportTable;
+  decimal: string;
+}
+
+export const parseStatement = (parser: StatementParser, text: string, options: StatementOptions): ParsedStatement => {
+  // "auto" is settled here so the decimal fallback below sees the delimiter actually used
+  const delimiter =
+    parser.delimited && options.delimiter === "auto"
+      ? (detectDelimiter(text) as StatementDelimiter)
+      : options.delimiter;
+  const grid = parser.parse(text, { ...options, delimiter }).map((cells) => cells.map((cell) => cell.trim()));
+  const headerIndex = options.headerRow === null ? findHeaderRow(grid) : options.headerRow - 1;
+
+  if (headerIndex < 0 || headerIndex >= grid.length) {
+    return { table: { headers: [], rows: [], firstLine: 1 }, decimal: "," };
+  }
+
+  const rows = grid.slice(headerIndex + 1);
+  return {
+    table: { headers: grid[headerIndex], rows, firstLine: headerIndex + 2 },
+    // With "," between fields the comma cannot also be the decimal separator
+    decimal: detectDecimal(rows, delimiter === "," ? "." : ","),
+  };
+};
@@ -0,0 +1,18 @@
+export type StatementDelimiter = "auto" | ";" | "," | "\t";
+
+export interface StatementOptions {
+  delimiter: StatementDelimiter;
+  // 1-based row holding the column names, or null to find it automatically
+  headerRow: number | null;
+}
+
+// Turns an exported bookmaker statement into a grid of cells, header row included
+export interface StatementParser {
+  id: string;
+  label: string;
+  accept: string[];
+  // Plain-text formats split rows on StatementOptions.delimiter; the others ignore it
+  delimited: boolean;
+  detect: (text: string) => boolean;
+  parse: (text: string, options: StatementOptions) => string[][];
+}
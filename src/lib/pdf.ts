@@ -0,0 +1,41 @@
+const PAGE_MARGIN_MM = 10;
+
+// Renders an element into an A4 PDF and downloads it. The element is captured as an image and
+// cut into page-sized slices; as when printing, elements marked print:hidden are left out and
+// those marked print:block are shown.
+// Both libraries are loaded on first use so they stay out of the main bundle.
+export const downloadPdf = async (element: HTMLElement, filename: string) => {
+  const [{ default: html2canvas }, { jsPDF }] = await Promise.all([import("html2canvas"), import("jspdf")]);
+
+  const canvas = await html2canvas(element, {
+    scale: 2,
+    backgroundColor: "#ffffff",
+    ignoreElements: (node) => node.classList.contains("print:hidden"),
+    onclone: (clone) =>
+      clone.querySelectorAll(".print\\:block").forEach((node) => node.classList.remove("hidden")),
+  });
+
+  const pdf = new jsPDF({ unit: "mm", format: "a4" });
+  const width = pdf.internal.pageSize.getWidth() - PAGE_MARGIN_MM * 2;
+  const height = pdf.internal.pageSize.getHeight() - PAGE_MARGIN_MM * 2;
+  const sliceHeight = Math.floor((canvas.width * height) / width);
+
+  for (let top = 0; top < canvas.height; top += sliceHeight) {
+    const slice = document.createElement("canvas");
+    slice.width = canvas.width;
+    slice.height = Math.min(sliceHeight, canvas.height - top);
+    slice.getContext("2d")?.drawImage(canvas, 0, top, slice.width, slice.height, 0, 0, slice.width, slice.height);
+
+    if (top > 0) pdf.addPage();
+    pdf.addImage(
+      slice.toDataURL("image/png"),
+      "PNG",
+      PAGE_MARGIN_MM,
+      PAGE_MARGIN_MM,
+      width,
+      (slice.height * width) / slice.width,
+    );
+  }
+
+  pdf.save(filename);
+};
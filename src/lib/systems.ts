@@ -0,0 +1,97 @@
+import { BetStatus, combineOdds, deriveParlayStatus, legReturnFactor } from "./bets";
+
+export interface SystemPreset {
+  id: string;
+  label: string;
+  legs: number;
+  sizes: number[];
+}
+
+export const SYSTEM_PRESETS: SystemPreset[] = [
+  { id: "trixie", label: "Trixie", legs: 3, sizes: [2, 3] },
+  { id: "patent", label: "Patent", legs: 3, sizes: [1, 2, 3] },
+  { id: "yankee", label: "Yankee", legs: 4, sizes: [2, 3, 4] },
+  { id: "lucky15", label: "Lucky 15", legs: 4, sizes: [1, 2, 3, 4] },
+  { id: "super-yankee", label: "Super Yankee", legs: 5, sizes: [2, 3, 4, 5] },
+  { id: "lucky31", label: "Lucky 31", legs: 5, sizes: [1, 2, 3, 4, 5] },
+  { id: "heinz", label: "Heinz", legs: 6, sizes: [2, 3, 4, 5, 6] },
+  { id: "lucky63", label: "Lucky 63", legs: 6, sizes: [1, 2, 3, 4, 5, 6] },
+];
+
+// All k-element subsets of [0, n), in lexicographic order
+export const kCombinations = (n: number, k: number): number[][] => {
+  if (k <= 0 || k > n) return [];
+  const result: number[][] = [];
+  const current: number[] = [];
+
+  const walk = (start: number) => {
+    if (current.length === k) {
+      result.push([...current]);
+      return;
+    }
+    for (let i = start; i <= n - (k - current.length); i++) {
+      current.push(i);
+      walk(i + 1);
+      current.pop();
+    }
+  };
+
+  walk(0);
+  return result;
+};
+
+export const systemCombinations = (legCount: number, sizes: number[]) =>
+  [...sizes].sort((a, b) => a - b).flatMap((size) => kCombinations(legCount, size));
+
+// Names a system the way bookmakers do: a known preset or "k/n"
+export const systemLabel = (legCount: number, sizes: number[] | null) => {
+  if (!sizes || sizes.length === 0) return `Sistema ${legCount}`;
+  const sorted = [...sizes].sort((a, b) => a - b);
+  const preset = SYSTEM_PRESETS.find(
+    (p) => p.legs === legCount && p.sizes.join(",") === sorted.join(","),
+  );
+  return preset ? preset.label : `${sorted.join(",")}/${legCount}`;
+};
+
+type SystemLeg = { odds: number; status: BetStatus };
+
+export interface SystemCombination {
+  legIndexes: number[];
+  odds: number;
+  status: BetStatus;
+  potentialReturn: number;
+  currentReturn: number | null;
+}
+
+// Mirrors public.sync_bet_from_legs / public.system_return in the database
+export const buildSystem = (legs: SystemLeg[], sizes: number[], unitStake: number) => {
+  const combinations: SystemCombination[] = systemCombinations(legs.length, sizes).map((legIndexes) => {
+    const comboLegs = legIndexes.map((i) => legs[i]);
+    const status = deriveParlayStatus(comboLegs);
+    const factor = comboLegs.reduce((acc, leg) => acc * legReturnFactor(leg), 1);
+    return {
+      legIndexes,
+      odds: combineOdds(comboLegs),
+      status,
+      potentialReturn: unitStake * comboLegs.reduce((acc, leg) => acc * leg.odds, 1),
+      currentReturn: status === "open" ? null : unitStake * factor,
+    };
+  });
+
+  const totalStake = unitStake * combinations.length;
+  const maxReturn = combinations.reduce((acc, combo) => acc + combo.potentialReturn, 0);
+
+  return { combinations, totalStake, maxReturn };
+};
+
+export const deriveSystemStatus = (
+  combinations: Pick<SystemCombination, "status" | "currentReturn">[],
+  totalStake: number,
+): BetStatus => {
+  if (combinations.length === 0 || combinations.some((combo) => combo.status === "open")) {
+    return "open";
+  }
+  if (combinations.every((combo) => combo.status === "void")) return "void";
+  const totalReturn = combinations.reduce((acc, combo) => acc + (combo.currentReturn || 0), 0);
+  return totalReturn >= totalStake ? "won" : "lost";
+};
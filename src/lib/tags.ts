@@ -0,0 +1,52 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface Tag {
+  id: string;
+  name: string;
+}
+
+export const fetchTags = async (): Promise<Tag[]> => {
+  const { data, error } = await supabase.from("tags").select("id, name").order("name");
+  if (error) throw error;
+  return data || [];
+};
+
+// Creates the tags that do not exist yet and returns the ids of all of them
+export const resolveTagIds = async (userId: string, names: string[]) => {
+  const unique = [...new Set(names.map((name) => name.trim()).filter(Boolean))];
+  if (unique.length === 0) return [];
+
+  const { data, error } = await supabase
+    .from("tags")
+    .upsert(
+      unique.map((name) => ({ user_id: userId, name })),
+      { onConflict: "user_id,name" },
+    )
+    .select("id");
+  if (error) throw error;
+  return data.map((tag) => tag.id);
+};
+
+// Replaces the tags of a bet with the given names
+export const setBetTags = async (userId: string, betId: string, names: string[]) => {
+  const tagIds = await resolveTagIds(userId, names);
+
+  let removal = supabase.from("bet_tags").delete().eq("bet_id", betId);
+  if (tagIds.length > 0) {
+    removal = removal.not("tag_id", "in", `(${tagIds.join(",")})`);
+  }
+  const { error: deleteError } = await removal;
+  if (deleteError) throw deleteError;
+
+  if (tagIds.length === 0) return;
+
+  const { error } = await supabase.from("bet_tags").upsert(
+    tagIds.map((tagId) => ({ bet_id: betId, tag_id: tagId, user_id: userId })),
+    { onConflict: "bet_id,tag_id", ignoreDuplicates: true },
+  );
+  if (error) throw error;
+};
+
+// Shape returned by embedding "bet_tags(tags(id, name))" in a bets query
+export const tagsOf = (bet: { bet_tags: { tags: Tag | null }[] }) =>
+  bet.bet_tags.flatMap((betTag) => (betTag.tags ? [betTag.tags] : []));
@@ -0,0 +1,167 @@
+import { supabase } from "@/integrations/supabase/client";
+
+export interface Sport {
+  id: string;
+  name: string;
+}
+
+export interface Competition {
+  id: string;
+  sport_id: string;
+  name: string;
+}
+
+export interface MarketType {
+  id: string;
+  name: string;
+}
+
+export interface Taxonomy {
+  sports: Sport[];
+  competitions: Competition[];
+  marketTypes: MarketType[];
+}
+
+// Offered in the autocomplete until the user has created their own entries with these names
+export const DEFAULT_SPORTS = ["Fútbol", "Baloncesto", "Tenis", "Fútbol americano", "Béisbol", "Hockey", "eSports"];
+
+export const DEFAULT_MARKET_TYPES = [
+  "1X2",
+  "Doble oportunidad",
+  "Over/Under",
+  "Hándicap",
+  "Hándicap asiático",
+  "Ambos marcan",
+  "Resultado exacto",
+  "Props de jugador",
+  "Ganador",
+];
+
+export const withDefaults = (names: string[], defaults: string[]) => {
+  const known = new Set(names.map((name) => name.toLowerCase()));
+  return [...names, ...defaults.filter((name) => !known.has(name.toLowerCase()))];
+};
+
+// Reuses the stored spelling when the user types an existing name with different casing
+export const matchName = (names: string[], value: string) => {
+  const trimmed = value.trim();
+  return names.find((name) => name.toLowerCase() === trimmed.toLowerCase()) ?? trimmed;
+};
+
+export const fetchTaxonomy = async (): Promise<Taxonomy> => {
+  const [sportsResult, competitionsResult, marketTypesResult] = await Promise.all([
+    supabase.from("sports").select("id, name").order("name"),
+    supabase.from("competitions").select("id, sport_id, name").order("name"),
+    supabase.from("market_types").select("id, name").order("name"),
+  ]);
+
+  if (sportsResult.error) throw sportsResult.error;
+  if (competitionsResult.error) throw competitionsResult.error;
+  if (marketTypesResult.error) throw marketTypesResult.error;
+
+  return {
+    sports: sportsResult.data || [],
+    competitions: competitionsResult.data || [],
+    marketTypes: marketTypesResult.data || [],
+  };
+};
+
+const resolveSportId = async (userId: string, name: string) => {
+  if (!name) return null;
+  const { data, error } = await supabase
+    .from("sports")
+    .upsert({ user_id: userId, name }, { onConflict: "user_id,name" })
+    .select("id")
+    .single();
+  if (error) throw error;
+  return data.id;
+};
+
+const resolveCompetitionId = async (userId: string, sportId: string | null, name: string) => {
+  if (!name || !sportId) return null;
+  const { data, error } = await supabase
+    .from("competitions")
+    .upsert({ user_id: userId, sport_id: sportId, name }, { onConflict: "user_id,sport_id,name" })
+    .select("id")
+    .single();
+  if (error) throw error;
+  return data.id;
+};
+
+const resolveMarketTypeId = async (userId: string, name: string) => {
+  if (!name) return null;
+  const { data, error } = await supabase
+    .from("market_types")
+    .upsert({ user_id: userId, name }, { onConflict: "user_id,name" })
+    .select("id")
+    .single();
+  if (error) throw error;
+  return data.id;
+};
+
+export interface TaxonomyNames {
+  sport: string;
+  competition: string;
+  marketType: string;
+}
+
+export interface ResolvedTaxonomy {
+  sportId: string | null;
+  competitionId: string | null;
+  marketTypeId: string | null;
+  // Entries that did not exist before, so discardTaxonomy can remove them again
+  created: { table: "sports" | "competitions" | "market_types"; id: string }[];
+}
+
+// Typing a new name in a bet form creates the entry on save; existing names, in any casing,
+// resolve to their id
+export const resolveTaxonomy = async (
+  userId: string,
+  taxonomy: Taxonomy,
+  names: TaxonomyNames,
+): Promise<ResolvedTaxonomy> => {
+  const created: ResolvedTaxonomy["created"] = [];
+
+  const sportId = await resolveSportId(userId, matchName(taxonomy.sports.map((s) => s.name), names.sport));
+  if (sportId && !taxonomy.sports.some((s) => s.id === sportId)) {
+    created.push({ table: "sports", id: sportId });
+  }
+
+  const competitionNames = taxonomy.competitions.filter((c) => c.sport_id === sportId).map((c) => c.name);
+  const competitionId = await resolveCompetitionId(userId, sportId, matchName(competitionNames, names.competition));
+  if (competitionId && !taxonomy.competitions.some((c) => c.id === competitionId)) {
+    created.push({ table: "competitions", id: competitionId });
+  }
+
+  const marketTypeId = await resolveMarketTypeId(
+    userId,
+    matchName(taxonomy.marketTypes.map((m) => m.name), names.marketType),
+  );
+  if (marketTypeId && !taxonomy.marketTypes.some((m) => m.id === marketTypeId)) {
+    created.push({ table: "market_types", id: marketTypeId });
+  }
+
+  return { sportId, competitionId, marketTypeId, created };
+};
+
+// Called when the bet they were created for fails to save, so no stray entries are left behind.
+// Newest first: a new competition may belong to a sport created in the same call.
+export const discardTaxonomy = async ({ created }: ResolvedTaxonomy) => {
+  for (const { table, id } of [...created].reverse()) {
+    await supabase.from(table).delete().eq("id", id);
+  }
+};
+
+type TaxonomyBet = {
+  sport: { name: string } | null;
+  competition: { name: string } | null;
+  market_type: { name: string } | null;
+  selection: string | null;
+};
+
+// "Fútbol · LaLiga · 1X2: Real Madrid"
+export const describeTaxonomy = (bet: TaxonomyBet) => {
+  const path = [bet.sport?.name, bet.competition?.name, bet.market_type?.name].filter(Boolean).join(" · ");
+  if (!bet.selection) return path;
+  return path ? `${path}: ${bet.selection}` : bet.selection;
+};
@@ -0,0 +1,40 @@
+import type { Enums } from "@/integrations/supabase/types";
+
+export type BankTransactionType = Enums<"bank_transaction_type">;
+
+export const TRANSACTION_TYPE_LABELS: Record<BankTransactionType, string> = {
+  deposit: "Depósito",
+  withdrawal: "Retirada",
+  bonus: "Bono",
+  fee: "Comisión",
+  adjustment: "Ajuste",
+  transfer_in: "Transferencia recibida",
+  transfer_out: "Transferencia enviada",
+};
+
+// Transfers are only created in pairs through public.transfer_between_banks
+export const MANUAL_TRANSACTION_TYPES: BankTransactionType[] = [
+  "deposit",
+  "withdrawal",
+  "bonus",
+  "fee",
+  "adjustment",
+];
+
+export const isTransfer = (type: BankTransactionType) =>
+  type === "transfer_in" || type === "transfer_out";
+
+export interface BankTransaction {
+  id: string;
+  bank_id: string;
+  type: BankTransactionType;
+  amount: number;
+  description: string | null;
+  transaction_date: string;
+  transfer_id: string | null;
+  counterparty_bank_id: string | null;
+}
+
+// Mirrors public.compute_bank_balance: adjustments carry their own sign
+export const signedTransactionAmount = ({ type, amount }: Pick<BankTransaction, "type" | "amount">) =>
+  type === "withdrawal" || type === "fee" || type === "transfer_out" ? -amount : amount;
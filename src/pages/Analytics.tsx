@@ -0,0 +1,356 @@
+import { useEffect, useState } from "react";
+import { Bar, BarChart, CartesianGrid, Cell, XAxis, YAxis } from "recharts";
+import { supabase } from "@/integrations/supabase/client";
+import Layout from "@/components/Layout";
+import OddsBandBreakdown from "@/components/OddsBandBreakdown";
+import TagBreakdown from "@/components/TagBreakdown";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ChartConfig, ChartContainer, ChartTooltip, ChartTooltipContent } from "@/components/ui/chart";
+import { useToast } from "@/hooks/use-toast";
+import { useUserSettings } from "@/hooks/use-user-settings";
+import { AnalyticsBet, computeMetrics } from "@/lib/analytics";
+import { convertAmount, formatMoney } from "@/lib/currency";
+import { fetchAllPages } from "@/lib/pagination";
+
+interface Bank {
+  id: string;
+  name: string;
+  currency: string;
+  archived_at: string | null;
+}
+
+type AnalyticsRow = AnalyticsBet & { id: string; bank_id: string };
+
+const ALL_BANKS = "all";
+
+const chartConfig = {
+  profit: { label: "Beneficio", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const formatMonth = (month: string) =>
+  new Date(month + "-01T00:00:00").toLocaleDateString(undefined, { month: "short", year: "numeric" });
+
+const Analytics = () => {
+  const { toast } = useToast();
+  const { reportingCurrency, rates } = useUserSettings();
+  const [banks, setBanks] = useState<Bank[]>([]);
+  const [selectedBank, setSelectedBank] = useState(ALL_BANKS);
+  const [fromDate, setFromDate] = useState("");
+  const [toDate, setToDate] = useState("");
+  const [bets, setBets] = useState<AnalyticsRow[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    fetchBanks();
+  }, []);
+
+  useEffect(() => {
+    fetchBets();
+  }, [selectedBank, fromDate, toDate]);
+
+  const fetchBanks = async () => {
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return;
+
+      const { data, error } = await supabase
+        .from("banks")
+        .select("id, name, currency, archived_at")
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      setBanks(data || []);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Error al cargar los banks",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchBets = async () => {
+    try {
+      const data = await fetchAllPages((from, to) => {
+        let query = supabase
+          .from("bets")
+          .select("id, bank_id, amount, odds, status, profit, bet_date, created_at");
+
+        if (selectedBank !== ALL_BANKS) {
+          query = query.eq("bank_id", selectedBank);
+        }
+        if (fromDate) {
+          query = query.gte("bet_date", fromDate);
+        }
+        if (toDate) {
+          query = query.lte("bet_date", toDate);
+        }
+
+        return query.order("id").range(from, to);
+      });
+
+      setBets(data);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Error al cargar las apuestas",
+      });
+    }
+  };
+
+  const isAllBanks = selectedBank === ALL_BANKS;
+  const currency = isAllBanks
+    ? reportingCurrency
+    : banks.find((bank) => bank.id === selectedBank)?.currency || reportingCurrency;
+
+  // Bets from banks in other currencies are converted; those without a rate are left out
+  const missingCurrencies = new Set<string>();
+  const convertedBets = bets.flatMap((bet) => {
+    const bankCurrency = banks.find((bank) => bank.id === bet.bank_id)?.currency || currency;
+    const amount = convertAmount(bet.amount, bankCurrency, currency, rates);
+    const profit = convertAmount(bet.profit || 0, bankCurrency, currency, rates);
+    if (amount === null || profit === null) {
+      missingCurrencies.add(bankCurrency);
+      return [];
+    }
+    return [{ ...bet, amount, profit }];
+  });
+
+  const metrics = computeMetrics(convertedBets);
+  const { drawdown } = metrics;
+
+  const metricCards = [
+    {
+      label: "Yield",
+      value: `${metrics.yield.toFixed(2)}%`,
+      tone: metrics.yield >= 0 ? "text-success" : "text-danger",
+    },
+    {
+      label: "Beneficio",
+      value: formatMoney(metrics.profit, currency, { signed: true }),
+      tone: metrics.profit >= 0 ? "text-success" : "text-danger",
+    },
+    { label: "Total Apostado", value: formatMoney(metrics.staked, currency) },
+    { label: "Acierto", value: `${metrics.strikeRate.toFixed(1)}%` },
+    { label: "Cuota Media", value: metrics.averageOdds.toFixed(2) },
+    { label: "Stake Medio", value: formatMoney(metrics.averageStake, currency) },
+    { label: "Mejor Racha", value: `${metrics.longestWin} ganadas`, tone: "text-success" },
+    { label: "Peor Racha", value: `${metrics.longestLoss} perdidas`, tone: "text-danger" },
+  ];
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-screen">
+          <div className="animate-pulse text-muted-foreground">Cargando...</div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="p-6 max-w-7xl mx-auto space-y-6">
+        {/* Header */}
+        <div className="flex flex-col lg:flex-row justify-between items-start lg:items-end gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Análisis</h1>
+            <p className="text-muted-foreground">
+              Rendimiento de {metrics.settledCount} apuestas liquidadas
+            </p>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-4 w-full lg:w-auto">
+            <div className="space-y-2">
+              <Label htmlFor="analytics-bank">Bank</Label>
+              <Select value={selectedBank} onValueChange={setSelectedBank}>
+                <SelectTrigger id="analytics-bank" className="sm:w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value={ALL_BANKS}>Todos los banks</SelectItem>
+                  {banks.map((bank) => (
+                    <SelectItem key={bank.id} value={bank.id}>
+                      {bank.name}
+                      {bank.archived_at && " (archivado)"}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="analytics-from">Desde</Label>
+              <Input
+                id="analytics-from"
+                type="date"
+                value={fromDate}
+                max={toDate || undefined}
+                onChange={(e) => setFromDate(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="analytics-to">Hasta</Label>
+              <Input
+                id="analytics-to"
+                type="date"
+                value={toDate}
+                min={fromDate || undefined}
+                onChange={(e) => setToDate(e.target.value)}
+              />
+            </div>
+          </div>
+        </div>
+
+        {missingCurrencies.size > 0 && (
+          <p className="text-sm text-warning">
+            Sin tipo de cambio a {currency} para {[...missingCurrencies].join(", ")}; esas apuestas
+            no se incluyen.
+          </p>
+        )}
+
+        {/* Metrics */}
+        <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">
+          {metricCards.map((metric) => (
+            <Card key={metric.label}>
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">{metric.label}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className={`text-2xl font-bold ${metric.tone || ""}`}>{metric.value}</div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {/* Drawdown */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Drawdown Máximo</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {drawdown.amount === 0 ? (
+              <p className="text-sm text-muted-foreground">Sin caídas en el periodo</p>
+            ) : (
+              <div className="grid grid-cols-1 sm:grid-cols-3 gap-4">
+                <div>
+                  <p className="text-xs text-muted-foreground mb-1">Caída</p>
+                  <p className="text-2xl font-bold text-danger">{formatMoney(-drawdown.amount, currency)}</p>
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground mb-1">Desde el máximo hasta el mínimo</p>
+                  <p className="text-sm font-semibold">
+                    {drawdown.peakDate && new Date(drawdown.peakDate + "T00:00:00").toLocaleDateString()} →{" "}
+                    {drawdown.troughDate && new Date(drawdown.troughDate + "T00:00:00").toLocaleDateString()}
+                  </p>
+                </div>
+                <div>
+                  <p className="text-xs text-muted-foreground mb-1">Recuperación</p>
+                  <p className="text-sm font-semibold">
+                    {drawdown.recoveryDays === null ? "Sin recuperar" : `${drawdown.recoveryDays} días`}
+                  </p>
+                </div>
+              </div>
+            )}
+          </CardContent>
+        </Card>
+
+        <OddsBandBreakdown bets={convertedBets} currency={currency} />
+
+        <TagBreakdown bets={convertedBets} currency={currency} />
+
+        {/* Profit by month */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Beneficio por Mes</CardTitle>
+          </CardHeader>
+          <CardContent className="space-y-6">
+            {metrics.months.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                No hay apuestas liquidadas en el periodo
+              </p>
+            ) : (
+              <>
+                <ChartContainer config={chartConfig} className="aspect-auto h-64 w-full">
+                  <BarChart data={metrics.months}>
+                    <CartesianGrid vertical={false} />
+                    <XAxis dataKey="month" tickLine={false} axisLine={false} tickFormatter={formatMonth} />
+                    <YAxis
+                      tickLine={false}
+                      axisLine={false}
+                      width={80}
+                      tickFormatter={(value: number) => formatMoney(value, currency)}
+                    />
+                    <ChartTooltip
+                      content={
+                        <ChartTooltipContent
+                          labelFormatter={(label) => formatMonth(label as string)}
+                          formatter={(value) => formatMoney(value as number, currency, { signed: true })}
+                        />
+                      }
+                    />
+                    <Bar dataKey="profit" radius={4}>
+                      {metrics.months.map((month) => (
+                        <Cell
+                          key={month.month}
+                          fill={month.profit >= 0 ? "hsl(var(--success))" : "hsl(var(--danger))"}
+                        />
+                      ))}
+                    </Bar>
+                  </BarChart>
+                </ChartContainer>
+
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Mes</TableHead>
+                      <TableHead className="text-right">Apuestas</TableHead>
+                      <TableHead className="text-right">Apostado</TableHead>
+                      <TableHead className="text-right">Beneficio</TableHead>
+                      <TableHead className="text-right">Yield</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {metrics.months.map((month) => (
+                      <TableRow key={month.month}>
+                        <TableCell className="font-medium capitalize">{formatMonth(month.month)}</TableCell>
+                        <TableCell className="text-right">{month.bets}</TableCell>
+                        <TableCell className="text-right">{formatMoney(month.staked, currency)}</TableCell>
+                        <TableCell className={`text-right ${month.profit >= 0 ? "text-success" : "text-danger"}`}>
+                          {formatMoney(month.profit, currency, { signed: true })}
+                        </TableCell>
+                        <TableCell className="text-right">
+                          {month.staked > 0 ? ((month.profit / month.staked) * 100).toFixed(2) : "0.00"}%
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    </Layout>
+  );
+};
+
+export default Analytics;
@@ -1,7 +1,7 @@
-import { useEffect, useState } from "react";
+import { useEffect, useMemo, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import Layout from "@/components/Layout";
-import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { Label } from "@/components/ui/label";
@@ -24,24 +24,78 @@ import {
   AlertDialogTitle,
   AlertDialogTrigger,
 } from "@/components/ui/alert-dialog";
-import { Plus, Trash2, Wallet, TrendingUp, TrendingDown } from "lucide-react";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Plus,
+  Trash2,
+  Wallet,
+  TrendingUp,
+  TrendingDown,
+  ArrowLeftRight,
+  Scale,
+  Archive,
+  ArchiveRestore,
+  Pencil,
+} from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useUserSettings } from "@/hooks/use-user-settings";
+import BankTransactionsDialog from "@/components/BankTransactionsDialog";
+import BankTransferDialog from "@/components/BankTransferDialog";
+import BankReconcileDialog from "@/components/BankReconcileDialog";
+import DeleteBankDialog from "@/components/DeleteBankDialog";
+import EditBankDialog from "@/components/EditBankDialog";
+import { BetStatus, summarizeStakes } from "@/lib/bets";
+import { BankTransactionType, signedTransactionAmount } from "@/lib/transactions";
+import { CURRENCIES, DEFAULT_CURRENCY, formatMoney, sumInCurrency } from "@/lib/currency";
+import { fetchAllPages } from "@/lib/pagination";
 
 interface Bank {
   id: string;
   name: string;
   initial_balance: number;
   current_balance: number;
+  currency: string;
+  notes: string | null;
+  archived_at: string | null;
   created_at: string;
 }
 
+interface BankBet {
+  bank_id: string;
+  amount: number;
+  status: BetStatus;
+  profit: number | null;
+  cashout_stake: number | null;
+}
+
+interface BankMovement {
+  bank_id: string;
+  type: BankTransactionType;
+  amount: number;
+}
+
 const Banks = () => {
   const { toast } = useToast();
+  const { reportingCurrency, rates } = useUserSettings();
   const [banks, setBanks] = useState<Bank[]>([]);
+  const [bets, setBets] = useState<BankBet[]>([]);
+  const [movements, setMovements] = useState<BankMovement[]>([]);
+  const [transactionsBank, setTransactionsBank] = useState<Bank | null>(null);
+  const [reconcileBankId, setReconcileBankId] = useState<string | null>(null);
+  const [deleteBank, setDeleteBank] = useState<Bank | null>(null);
+  const [editBank, setEditBank] = useState<Bank | null>(null);
+  const [isTransferOpen, setIsTransferOpen] = useState(false);
   const [loading, setLoading] = useState(true);
   const [isDialogOpen, setIsDialogOpen] = useState(false);
   const [newBankName, setNewBankName] = useState("");
   const [newBankBalance, setNewBankBalance] = useState("");
+  const [newBankCurrency, setNewBankCurrency] = useState(DEFAULT_CURRENCY);
 
   useEffect(() => {
     fetchBanks();
@@ -52,13 +106,20 @@ const Banks = () => {
       const { data: { session } } = await supabase.auth.getSession();
       if (!session) return;
 
-      const { data, error } = await supabase
-        .from("banks")
-        .select("*")
-        .order("created_at", { ascending: false });
+      const [banksResult, betRows, movementRows] = await Promise.all([
+        supabase.from("banks").select("*").order("created_at", { ascending: false }),
+        fetchAllPages((from, to) =>
+          supabase.from("bets").select("bank_id, amount, status, profit, cashout_stake").order("id").range(from, to),
+        ),
+        fetchAllPages((from, to) =>
+          supabase.from("bank_transactions").select("bank_id, type, amount").order("id").range(from, to),
+        ),
+      ]);
 
-      if (error) throw error;
-      setBanks(data || []);
+      if (banksResult.error) throw banksResult.error;
+      setBanks(banksResult.data || []);
+      setBets(betRows);
+      setMovements(movementRows);
     } catch (error: any) {
       toast({
         variant: "destructive",
@@ -92,6 +153,7 @@ const Banks = () => {
         name: newBankName,
         initial_balance: balance,
         current_balance: balance,
+        currency: newBankCurrency,
       });
 
       if (error) throw error;
@@ -103,6 +165,7 @@ const Banks = () => {
 
       setNewBankName("");
       setNewBankBalance("");
+      setNewBankCurrency(DEFAULT_CURRENCY);
       setIsDialogOpen(false);
       fetchBanks();
     } catch (error: any) {
@@ -114,32 +177,52 @@ const Banks = () => {
     }
   };
 
-  const handleDeleteBank = async (bankId: string) => {
+  const handleArchiveBank = async (bank: Bank, archive: boolean) => {
     try {
-      const { error } = await supabase.from("banks").delete().eq("id", bankId);
+      const { error } = await supabase
+        .from("banks")
+        .update({ archived_at: archive ? new Date().toISOString() : null })
+        .eq("id", bank.id);
 
       if (error) throw error;
 
       toast({
-        title: "Bank eliminado",
-        description: "El bank ha sido eliminado exitosamente",
+        title: archive ? "Bank archivado" : "Bank restaurado",
+        description: archive
+          ? `${bank.name} ya no aparecerá al registrar apuestas. Su historial se conserva.`
+          : `${bank.name} vuelve a estar disponible`,
       });
 
       fetchBanks();
-    } catch (error: any) {
+    } catch (error) {
       toast({
         variant: "destructive",
         title: "Error",
-        description: error.message || "Error al eliminar el bank",
+        description: archive ? "Error al archivar el bank" : "Error al restaurar el bank",
       });
     }
   };
 
-  const calculateROI = (bank: Bank) => {
-    if (bank.initial_balance === 0) return 0;
-    return ((bank.current_balance - bank.initial_balance) / bank.initial_balance) * 100;
+  const calculateBankStats = (bank: Bank) => {
+    const netMovements = movements
+      .filter((movement) => movement.bank_id === bank.id)
+      .reduce((acc, movement) => acc + signedTransactionAmount(movement), 0);
+    return {
+      ...summarizeStakes(bets.filter((bet) => bet.bank_id === bank.id)),
+      netMovements,
+    };
   };
 
+  // Memoized because BankTransferDialog resets its form whenever the banks it gets change
+  const activeBanks = useMemo(() => banks.filter((bank) => !bank.archived_at), [banks]);
+  const archivedBanks = banks.filter((bank) => bank.archived_at);
+
+  const portfolio = sumInCurrency(
+    activeBanks.map((bank) => ({ amount: bank.current_balance, currency: bank.currency })),
+    reportingCurrency,
+    rates,
+  );
+
   if (loading) {
     return (
       <Layout>
@@ -159,53 +242,96 @@ const Banks = () => {
             <h1 className="text-3xl font-bold text-foreground">Mis Banks</h1>
             <p className="text-muted-foreground">Gestiona tus casas de apuesta</p>
           </div>
-          <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
-            <DialogTrigger asChild>
-              <Button>
-                <Plus className="mr-2 h-4 w-4" />
-                Nuevo Bank
+          <div className="flex gap-2">
+            {activeBanks.length > 1 && (
+              <Button variant="outline" onClick={() => setIsTransferOpen(true)}>
+                <ArrowLeftRight className="mr-2 h-4 w-4" />
+                Transferir
               </Button>
-            </DialogTrigger>
-            <DialogContent>
-              <DialogHeader>
-                <DialogTitle>Crear Nuevo Bank</DialogTitle>
-                <DialogDescription>
-                  Crea un nuevo bank para organizar tus apuestas
-                </DialogDescription>
-              </DialogHeader>
-              <form onSubmit={handleCreateBank} className="space-y-4">
-                <div className="space-y-2">
-                  <Label htmlFor="bank-name">Nombre del Bank</Label>
-                  <Input
-                    id="bank-name"
-                    placeholder="Ej: Bet365, Codere, etc."
-                    value={newBankName}
-                    onChange={(e) => setNewBankName(e.target.value)}
-                    required
-                  />
-                </div>
-                <div className="space-y-2">
-                  <Label htmlFor="bank-balance">Balance Inicial</Label>
-                  <Input
-                    id="bank-balance"
-                    type="number"
-                    step="0.01"
-                    placeholder="1000.00"
-                    value={newBankBalance}
-                    onChange={(e) => setNewBankBalance(e.target.value)}
-                    required
-                  />
-                </div>
-                <Button type="submit" className="w-full">
-                  Crear Bank
+            )}
+            <Dialog open={isDialogOpen} onOpenChange={setIsDialogOpen}>
+              <DialogTrigger asChild>
+                <Button>
+                  <Plus className="mr-2 h-4 w-4" />
+                  Nuevo Bank
                 </Button>
-              </form>
-            </DialogContent>
-          </Dialog>
+              </DialogTrigger>
+              <DialogContent>
+                <DialogHeader>
+                  <DialogTitle>Crear Nuevo Bank</DialogTitle>
+                  <DialogDescription>
+                    Crea un nuevo bank para organizar tus apuestas
+                  </DialogDescription>
+                </DialogHeader>
+                <form onSubmit={handleCreateBank} className="space-y-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="bank-name">Nombre del Bank</Label>
+                    <Input
+                      id="bank-name"
+                      placeholder="Ej: Bet365, Codere, etc."
+                      value={newBankName}
+                      onChange={(e) => setNewBankName(e.target.value)}
+                      required
+                    />
+                  </div>
+                  <div className="grid grid-cols-2 gap-4">
+                    <div className="space-y-2">
+                      <Label htmlFor="bank-balance">Balance Inicial</Label>
+                      <Input
+                        id="bank-balance"
+                        type="number"
+                        step="0.01"
+                        placeholder="1000.00"
+                        value={newBankBalance}
+                        onChange={(e) => setNewBankBalance(e.target.value)}
+                        required
+                      />
+                    </div>
+                    <div className="space-y-2">
+                      <Label htmlFor="bank-currency">Moneda</Label>
+                      <Select value={newBankCurrency} onValueChange={setNewBankCurrency}>
+                        <SelectTrigger id="bank-currency">
+                          <SelectValue />
+                        </SelectTrigger>
+                        <SelectContent>
+                          {CURRENCIES.map((currency) => (
+                            <SelectItem key={currency} value={currency}>
+                              {currency}
+                            </SelectItem>
+                          ))}
+                        </SelectContent>
+                      </Select>
+                    </div>
+                  </div>
+                  <Button type="submit" className="w-full">
+                    Crear Bank
+                  </Button>
+                </form>
+              </DialogContent>
+            </Dialog>
+          </div>
         </div>
 
+        {/* Portfolio */}
+        {activeBanks.length > 0 && (
+          <Card>
+            <CardContent className="pt-6">
+              <p className="text-sm text-muted-foreground mb-1">
+                Balance Total ({reportingCurrency})
+              </p>
+              <p className="text-3xl font-bold">{formatMoney(portfolio.total, reportingCurrency)}</p>
+              {portfolio.missing.length > 0 && (
+                <p className="text-xs text-warning mt-2">
+                  Sin tipo de cambio a {reportingCurrency} para {portfolio.missing.join(", ")}; esos
+                  banks no se incluyen en el total. Añádelo en Ajustes.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        )}
+
         {/* Banks Grid */}
-        {banks.length === 0 ? (
+        {activeBanks.length === 0 ? (
           <Card className="text-center py-12">
             <CardContent>
               <Wallet className="h-16 w-16 mx-auto mb-4 text-muted-foreground" />
@@ -221,9 +347,8 @@ const Banks = () => {
           </Card>
         ) : (
           <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
-            {banks.map((bank) => {
-              const roi = calculateROI(bank);
-              const profit = bank.current_balance - bank.initial_balance;
+            {activeBanks.map((bank) => {
+              const { roi, profit, staked, netMovements } = calculateBankStats(bank);
 
               return (
                 <Card key={bank.id} className="relative overflow-hidden">
@@ -233,54 +358,89 @@ const Banks = () => {
                         <div className="p-2 bg-primary/10 rounded-lg">
                           <Wallet className="h-5 w-5 text-primary" />
                         </div>
-                        <CardTitle className="text-xl">{bank.name}</CardTitle>
+                        <div>
+                          <CardTitle className="text-xl">{bank.name}</CardTitle>
+                          <p className="text-xs text-muted-foreground">{bank.currency}</p>
+                        </div>
+                      </div>
+                      <div className="flex items-center">
+                        <Button variant="ghost" size="icon" title="Editar" onClick={() => setEditBank(bank)}>
+                          <Pencil className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Movimientos"
+                          onClick={() => setTransactionsBank(bank)}
+                        >
+                          <ArrowLeftRight className="h-4 w-4" />
+                        </Button>
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          title="Conciliar"
+                          onClick={() => setReconcileBankId(bank.id)}
+                        >
+                          <Scale className="h-4 w-4" />
+                        </Button>
+                        <AlertDialog>
+                          <AlertDialogTrigger asChild>
+                            <Button variant="ghost" size="icon" title="Archivar">
+                              <Archive className="h-4 w-4" />
+                            </Button>
+                          </AlertDialogTrigger>
+                          <AlertDialogContent>
+                            <AlertDialogHeader>
+                              <AlertDialogTitle>¿Archivar bank?</AlertDialogTitle>
+                              <AlertDialogDescription>
+                                Dejará de aparecer al registrar y consultar apuestas, pero sus
+                                apuestas se conservan y siguen contando en el análisis. Puedes
+                                restaurarlo cuando quieras.
+                              </AlertDialogDescription>
+                            </AlertDialogHeader>
+                            <AlertDialogFooter>
+                              <AlertDialogCancel>Cancelar</AlertDialogCancel>
+                              <AlertDialogAction onClick={() => handleArchiveBank(bank, true)}>
+                                Archivar
+                              </AlertDialogAction>
+                            </AlertDialogFooter>
+                          </AlertDialogContent>
+                        </AlertDialog>
                       </div>
-                      <AlertDialog>
-                        <AlertDialogTrigger asChild>
-                          <Button variant="ghost" size="icon" className="text-destructive hover:text-destructive">
-                            <Trash2 className="h-4 w-4" />
-                          </Button>
-                        </AlertDialogTrigger>
-                        <AlertDialogContent>
-                          <AlertDialogHeader>
-                            <AlertDialogTitle>¿Eliminar bank?</AlertDialogTitle>
-                            <AlertDialogDescription>
-                              Esta acción eliminará el bank y todas sus apuestas asociadas.
-                              No se puede deshacer.
-                            </AlertDialogDescription>
-                          </AlertDialogHeader>
-                          <AlertDialogFooter>
-                            <AlertDialogCancel>Cancelar</AlertDialogCancel>
-                            <AlertDialogAction
-                              onClick={() => handleDeleteBank(bank.id)}
-                              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
-                            >
-                              Eliminar
-                            </AlertDialogAction>
-                          </AlertDialogFooter>
-                        </AlertDialogContent>
-                      </AlertDialog>
                     </div>
                   </CardHeader>
                   <CardContent className="space-y-4">
+                    {bank.notes && (
+                      <p className="text-sm text-muted-foreground whitespace-pre-line">{bank.notes}</p>
+                    )}
                     <div>
                       <p className="text-sm text-muted-foreground mb-1">Balance Actual</p>
-                      <p className="text-3xl font-bold">${bank.current_balance.toFixed(2)}</p>
+                      <p className="text-3xl font-bold">{formatMoney(bank.current_balance, bank.currency)}</p>
                     </div>
 
                     <div className="grid grid-cols-2 gap-4 pt-4 border-t">
                       <div>
                         <p className="text-xs text-muted-foreground mb-1">Balance Inicial</p>
-                        <p className="text-sm font-semibold">${bank.initial_balance.toFixed(2)}</p>
+                        <p className="text-sm font-semibold">{formatMoney(bank.initial_balance, bank.currency)}</p>
                       </div>
                       <div>
                         <p className="text-xs text-muted-foreground mb-1">
                           {profit >= 0 ? "Ganancia" : "Pérdida"}
                         </p>
                         <p className={`text-sm font-semibold ${profit >= 0 ? "text-success" : "text-danger"}`}>
-                          ${Math.abs(profit).toFixed(2)}
+                          {formatMoney(Math.abs(profit), bank.currency)}
                         </p>
                       </div>
+                      <div>
+                        <p className="text-xs text-muted-foreground mb-1">Movimientos</p>
+                        <p className="text-sm font-semibold">
+                          {formatMoney(netMovements, bank.currency, { signed: true })}
+                        </p>
+                      </div>
+                      <div>
+                        <p className="text-xs text-muted-foreground mb-1">Total Apostado</p>
+                        <p className="text-sm font-semibold">{formatMoney(staked, bank.currency)}</p>
+                      </div>
                     </div>
 
                     <div className="flex items-center justify-between pt-2 border-t">
@@ -296,7 +456,78 @@ const Banks = () => {
             })}
           </div>
         )}
+
+        {/* Archived Banks */}
+        {archivedBanks.length > 0 && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Banks Archivados</CardTitle>
+              <CardDescription>
+                No aparecen al registrar apuestas, pero su historial sigue contando en el análisis
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-2">
+              {archivedBanks.map((bank) => (
+                <div key={bank.id} className="flex items-center justify-between gap-2 text-sm">
+                  <div>
+                    <p className="font-medium">{bank.name}</p>
+                    <p className="text-xs text-muted-foreground">
+                      {formatMoney(bank.current_balance, bank.currency)} • Archivado el{" "}
+                      {new Date(bank.archived_at as string).toLocaleDateString()}
+                    </p>
+                  </div>
+                  <div className="flex items-center">
+                    <Button variant="ghost" size="sm" onClick={() => handleArchiveBank(bank, false)}>
+                      <ArchiveRestore className="mr-2 h-4 w-4" />
+                      Restaurar
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      title="Eliminar definitivamente"
+                      className="text-destructive hover:text-destructive"
+                      onClick={() => setDeleteBank(bank)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                </div>
+              ))}
+            </CardContent>
+          </Card>
+        )}
       </div>
+
+      <EditBankDialog
+        bank={editBank}
+        onOpenChange={(open) => !open && setEditBank(null)}
+        onSaved={fetchBanks}
+      />
+
+      <DeleteBankDialog
+        bank={deleteBank}
+        onOpenChange={(open) => !open && setDeleteBank(null)}
+        onDeleted={fetchBanks}
+      />
+
+      <BankTransactionsDialog
+        bank={transactionsBank}
+        onOpenChange={(open) => !open && setTransactionsBank(null)}
+        onChanged={fetchBanks}
+      />
+
+      <BankReconcileDialog
+        bank={banks.find((bank) => bank.id === reconcileBankId) || null}
+        onOpenChange={(open) => !open && setReconcileBankId(null)}
+        onReconciled={fetchBanks}
+      />
+
+      <BankTransferDialog
+        banks={activeBanks}
+        open={isTransferOpen}
+        onOpenChange={setIsTransferOpen}
+        onTransferred={fetchBanks}
+      />
     </Layout>
   );
 };
@@ -13,34 +13,77 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import { Calendar, TrendingUp, TrendingDown, DollarSign } from "lucide-react";
+import { Calendar, TrendingUp, TrendingDown, DollarSign, Pencil, Trash2 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useUserSettings } from "@/hooks/use-user-settings";
+import { useUndoableBetDelete } from "@/hooks/use-undoable-bet-delete";
+import CashOutDialog from "@/components/CashOutDialog";
+import BetLegsList from "@/components/BetLegsList";
+import BetCombinationsList from "@/components/BetCombinationsList";
+import BetTagsEditor from "@/components/BetTagsEditor";
+import EditBetDialog from "@/components/EditBetDialog";
+import {
+  BET_STATUSES,
+  BET_STATUS_LABELS,
+  BET_TYPE_LABELS,
+  BetCombination,
+  BetLeg,
+  BetStatus,
+  isLosingStatus,
+  isMultiLegBet,
+  isWinningStatus,
+} from "@/lib/bets";
+import { systemLabel } from "@/lib/systems";
+import { DEFAULT_CURRENCY, formatMoney } from "@/lib/currency";
+import { describeTaxonomy } from "@/lib/taxonomy";
+import { Tag, fetchTags, tagsOf } from "@/lib/tags";
+import { formatOdds } from "@/lib/odds";
 
 interface Bank {
   id: string;
   name: string;
+  currency: string;
 }
 
 interface Bet {
   id: string;
+  bank_id: string;
   amount: number;
   odds: number;
-  status: "won" | "lost" | "open";
+  status: BetStatus;
   description: string | null;
   profit: number | null;
+  cashout_amount: number | null;
+  cashout_stake: number | null;
+  bet_type: string;
+  bet_legs: BetLeg[];
+  bet_combinations: BetCombination[];
+  system_sizes: number[] | null;
   bet_date: string;
+  selection: string | null;
+  sport: { name: string } | null;
+  competition: { name: string } | null;
+  market_type: { name: string } | null;
+  bet_tags: { tags: Tag | null }[];
 }
 
 const DailyBets = () => {
   const { toast } = useToast();
+  const { oddsFormat } = useUserSettings();
   const [banks, setBanks] = useState<Bank[]>([]);
   const [selectedBank, setSelectedBank] = useState("");
   const [selectedDate, setSelectedDate] = useState(new Date().toISOString().split("T")[0]);
   const [bets, setBets] = useState<Bet[]>([]);
   const [loading, setLoading] = useState(true);
+  const [cashOutBet, setCashOutBet] = useState<Bet | null>(null);
+  const [editBet, setEditBet] = useState<Bet | null>(null);
+  const [allTags, setAllTags] = useState<Tag[]>([]);
+
+  const currency = banks.find((bank) => bank.id === selectedBank)?.currency || DEFAULT_CURRENCY;
 
   useEffect(() => {
     fetchBanks();
+    fetchAllTags();
   }, []);
 
   useEffect(() => {
@@ -56,7 +99,8 @@ const DailyBets = () => {
 
       const { data, error } = await supabase
         .from("banks")
-        .select("id, name")
+        .select("id, name, currency")
+        .is("archived_at", null)
         .order("created_at", { ascending: false });
 
       if (error) throw error;
@@ -75,11 +119,25 @@ const DailyBets = () => {
     }
   };
 
+  const fetchAllTags = async () => {
+    try {
+      setAllTags(await fetchTags());
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Error al cargar las etiquetas",
+      });
+    }
+  };
+
   const fetchBets = async () => {
     try {
       const { data, error } = await supabase
         .from("bets")
-        .select("*")
+        .select(
+          "*, bet_legs(*), bet_combinations(*), bet_tags(tags(id, name)), sport:sports(name), competition:competitions(name), market_type:market_types(name)",
+        )
         .eq("bank_id", selectedBank)
         .eq("bet_date", selectedDate)
         .order("created_at", { ascending: false });
@@ -95,11 +153,14 @@ const DailyBets = () => {
     }
   };
 
-  const updateBetStatus = async (betId: string, newStatus: "won" | "lost" | "open") => {
+  const updateBetStatus = async (betId: string, newStatus: BetStatus, clearCashOut = false) => {
     try {
       const { error } = await supabase
         .from("bets")
-        .update({ status: newStatus })
+        .update({
+          status: newStatus,
+          ...(clearCashOut ? { cashout_amount: null, cashout_stake: null } : {}),
+        })
         .eq("id", betId);
 
       if (error) throw error;
@@ -119,32 +180,61 @@ const DailyBets = () => {
     }
   };
 
+  const deleteBet = useUndoableBetDelete(fetchBets);
+
+  const handleDelete = (bet: Bet) => {
+    setBets(bets.filter((b) => b.id !== bet.id));
+    deleteBet(bet.id);
+  };
+
+  const handleBetChanged = () => {
+    fetchAllTags();
+    fetchBets();
+  };
+
+  const handleStatusChange = (bet: Bet, newStatus: BetStatus) => {
+    if (newStatus === "cashed_out") {
+      setCashOutBet(bet);
+      return;
+    }
+    updateBetStatus(bet.id, newStatus, bet.status === "cashed_out");
+  };
+
   const calculateDailySummary = () => {
     return bets.reduce(
       (acc, bet) => {
         acc.total++;
-        if (bet.status === "won") {
+        if (isWinningStatus(bet.status)) {
           acc.won++;
-          acc.profit += bet.profit || 0;
-        } else if (bet.status === "lost") {
+        } else if (isLosingStatus(bet.status)) {
           acc.lost++;
-          acc.profit += bet.profit || 0;
+        } else if (bet.status === "void") {
+          acc.voided++;
         }
+        acc.profit += bet.profit || 0;
         acc.wagered += bet.amount;
         return acc;
       },
-      { total: 0, won: 0, lost: 0, profit: 0, wagered: 0 }
+      { total: 0, won: 0, lost: 0, voided: 0, profit: 0, wagered: 0 }
     );
   };
 
   const summary = calculateDailySummary();
 
-  const getStatusBadge = (status: string) => {
+  const getStatusBadge = (status: BetStatus) => {
     switch (status) {
       case "won":
         return <Badge className="bg-success text-success-foreground">Ganada</Badge>;
+      case "half_won":
+        return <Badge className="bg-success/70 text-success-foreground">Medio ganada</Badge>;
       case "lost":
         return <Badge className="bg-danger text-danger-foreground">Perdida</Badge>;
+      case "half_lost":
+        return <Badge className="bg-danger/70 text-danger-foreground">Medio perdida</Badge>;
+      case "void":
+        return <Badge variant="secondary">Anulada</Badge>;
+      case "cashed_out":
+        return <Badge className="bg-warning text-warning-foreground">Cash out</Badge>;
       default:
         return <Badge variant="outline">Abierta</Badge>;
     }
@@ -211,6 +301,9 @@ const DailyBets = () => {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold">{summary.total}</div>
+              {summary.voided > 0 && (
+                <p className="text-xs text-muted-foreground">{summary.voided} anuladas</p>
+              )}
             </CardContent>
           </Card>
 
@@ -247,7 +340,7 @@ const DailyBets = () => {
             </CardHeader>
             <CardContent>
               <div className={`text-2xl font-bold ${summary.profit >= 0 ? "text-success" : "text-danger"}`}>
-                ${summary.profit.toFixed(2)}
+                {formatMoney(summary.profit, currency)}
               </div>
             </CardContent>
           </Card>
@@ -276,29 +369,94 @@ const DailyBets = () => {
                         <div className="flex items-center gap-2 mb-2">
                           {getStatusBadge(bet.status)}
                           <span className="text-sm text-muted-foreground">
-                            Cuota: {bet.odds.toFixed(2)}
+                            Cuota: {formatOdds(bet.odds, oddsFormat)}
                           </span>
+                          {bet.bet_type === "parlay" && (
+                            <Badge variant="outline">
+                              {BET_TYPE_LABELS.parlay} ({bet.bet_legs.length})
+                            </Badge>
+                          )}
+                          {bet.bet_type === "system" && (
+                            <Badge variant="outline">
+                              {BET_TYPE_LABELS.system}: {systemLabel(bet.bet_legs.length, bet.system_sizes)}
+                            </Badge>
+                          )}
                         </div>
+                        {describeTaxonomy(bet) && (
+                          <p className="text-sm font-medium mb-1">{describeTaxonomy(bet)}</p>
+                        )}
                         <p className="text-sm text-muted-foreground mb-2">
                           {bet.description || "Sin descripción"}
                         </p>
-                        <div className="w-full sm:w-48">
-                          <Select value={bet.status} onValueChange={(value) => updateBetStatus(bet.id, value as "won" | "lost" | "open")}>
-                            <SelectTrigger className="h-8">
-                              <SelectValue />
-                            </SelectTrigger>
-                            <SelectContent>
-                              <SelectItem value="open">Abierta</SelectItem>
-                              <SelectItem value="won">Ganada</SelectItem>
-                              <SelectItem value="lost">Perdida</SelectItem>
-                            </SelectContent>
-                          </Select>
-                        </div>
+                        <BetTagsEditor
+                          betId={bet.id}
+                          tags={tagsOf(bet)}
+                          allTags={allTags}
+                          onChanged={handleBetChanged}
+                        />
+                        {isMultiLegBet(bet.bet_type) ? (
+                          <>
+                            <BetLegsList
+                              legs={bet.bet_legs}
+                              onLegUpdated={fetchBets}
+                              readOnly={bet.status === "cashed_out"}
+                              oddsFormat={oddsFormat}
+                            />
+                            {bet.bet_type === "system" && (
+                              <BetCombinationsList
+                                combinations={bet.bet_combinations}
+                                legs={bet.bet_legs}
+                                currency={currency}
+                                oddsFormat={oddsFormat}
+                              />
+                            )}
+                            {bet.status === "open" && (
+                              <Button variant="outline" size="sm" onClick={() => setCashOutBet(bet)}>
+                                Cash Out
+                              </Button>
+                            )}
+                          </>
+                        ) : (
+                          <div className="w-full sm:w-48">
+                            <Select value={bet.status} onValueChange={(value) => handleStatusChange(bet, value as BetStatus)}>
+                              <SelectTrigger className="h-8">
+                                <SelectValue />
+                              </SelectTrigger>
+                              <SelectContent>
+                                {BET_STATUSES.map((value) => (
+                                  <SelectItem key={value} value={value}>
+                                    {BET_STATUS_LABELS[value]}
+                                  </SelectItem>
+                                ))}
+                              </SelectContent>
+                            </Select>
+                          </div>
+                        )}
                       </div>
 
                       <div className="flex flex-col sm:items-end gap-1">
-                        <div className="text-lg font-semibold">
-                          ${bet.amount.toFixed(2)}
+                        <div className="flex items-center gap-2">
+                          <div className="text-lg font-semibold">
+                            {formatMoney(bet.amount, currency)}
+                          </div>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8"
+                            aria-label="Editar apuesta"
+                            onClick={() => setEditBet(bet)}
+                          >
+                            <Pencil className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-8 w-8 text-muted-foreground hover:text-danger"
+                            aria-label="Eliminar apuesta"
+                            onClick={() => handleDelete(bet)}
+                          >
+                            <Trash2 className="h-4 w-4" />
+                          </Button>
                         </div>
                         {bet.profit !== null && bet.status !== "open" && (
                           <div
@@ -306,7 +464,14 @@ const DailyBets = () => {
                               bet.profit >= 0 ? "text-success" : "text-danger"
                             }`}
                           >
-                            {bet.profit >= 0 ? "+" : ""}${bet.profit.toFixed(2)}
+                            {formatMoney(bet.profit, currency, { signed: true })}
+                          </div>
+                        )}
+                        {bet.cashout_amount !== null && (
+                          <div className="text-xs text-muted-foreground">
+                            Cobrado: {formatMoney(bet.cashout_amount, currency)}
+                            {bet.status !== "cashed_out" &&
+                              ` (en juego ${formatMoney(bet.amount - (bet.cashout_stake || 0), currency)})`}
                           </div>
                         )}
                       </div>
@@ -318,6 +483,21 @@ const DailyBets = () => {
           </CardContent>
         </Card>
       </div>
+
+      <CashOutDialog
+        bet={cashOutBet}
+        currency={currency}
+        onOpenChange={(open) => !open && setCashOutBet(null)}
+        onCashedOut={fetchBets}
+      />
+
+      <EditBetDialog
+        bet={editBet}
+        banks={banks}
+        oddsFormat={oddsFormat}
+        onOpenChange={(open) => !open && setEditBet(null)}
+        onSaved={handleBetChanged}
+      />
     </Layout>
   );
 };
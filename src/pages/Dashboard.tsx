@@ -2,6 +2,7 @@ import { useEffect, useState } from "react";
 import { supabase } from "@/integrations/supabase/client";
 import { useNavigate } from "react-router-dom";
 import Layout from "@/components/Layout";
+import BankrollChart from "@/components/BankrollChart";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import {
@@ -11,6 +12,14 @@ import {
   SelectTrigger,
   SelectValue,
 } from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
 import { 
   TrendingUp, 
   TrendingDown, 
@@ -18,35 +27,66 @@ import {
   Plus, 
   Calendar,
   Activity,
-  DollarSign
+  DollarSign,
+  Clock
 } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useUserSettings } from "@/hooks/use-user-settings";
+import { BetStatus, isLosingStatus, isWinningStatus, summarizeStakes } from "@/lib/bets";
+import { DEFAULT_CURRENCY, formatMoney, sumInCurrency } from "@/lib/currency";
+import { fetchAllPages } from "@/lib/pagination";
 
 interface Bank {
   id: string;
   name: string;
   current_balance: number;
   initial_balance: number;
+  currency: string;
+}
+
+interface DashboardBet {
+  bank_id: string;
+  amount: number;
+  status: BetStatus;
+  profit: number | null;
+  cashout_stake: number | null;
+  bet_date: string;
 }
 
 interface DailyStats {
   total_bets: number;
   total_won: number;
   total_lost: number;
+  total_void: number;
   net_profit: number;
 }
 
+const ALL_BANKS = "all";
+
+const computeDailyStats = (bets: DashboardBet[]): DailyStats =>
+  bets.reduce(
+    (acc, bet) => {
+      acc.total_bets += 1;
+      if (isWinningStatus(bet.status)) {
+        acc.total_won += 1;
+      } else if (isLosingStatus(bet.status)) {
+        acc.total_lost += 1;
+      } else if (bet.status === "void") {
+        acc.total_void += 1;
+      }
+      acc.net_profit += bet.profit || 0;
+      return acc;
+    },
+    { total_bets: 0, total_won: 0, total_lost: 0, total_void: 0, net_profit: 0 }
+  );
+
 const Dashboard = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { reportingCurrency, rates } = useUserSettings();
   const [banks, setBanks] = useState<Bank[]>([]);
   const [selectedBank, setSelectedBank] = useState<string>("");
-  const [dailyStats, setDailyStats] = useState<DailyStats>({
-    total_bets: 0,
-    total_won: 0,
-    total_lost: 0,
-    net_profit: 0,
-  });
+  const [bets, setBets] = useState<DashboardBet[]>([]);
   const [loading, setLoading] = useState(true);
 
   useEffect(() => {
@@ -55,7 +95,7 @@ const Dashboard = () => {
 
   useEffect(() => {
     if (selectedBank) {
-      fetchDailyStats(selectedBank);
+      fetchBets(selectedBank);
     }
   }, [selectedBank]);
 
@@ -67,13 +107,14 @@ const Dashboard = () => {
       const { data, error } = await supabase
         .from("banks")
         .select("*")
+        .is("archived_at", null)
         .order("created_at", { ascending: false });
 
       if (error) throw error;
 
       setBanks(data || []);
       if (data && data.length > 0 && !selectedBank) {
-        setSelectedBank(data[0].id);
+        setSelectedBank(data.length > 1 ? ALL_BANKS : data[0].id);
       }
     } catch (error: any) {
       toast({
@@ -86,34 +127,19 @@ const Dashboard = () => {
     }
   };
 
-  const fetchDailyStats = async (bankId: string) => {
+  const fetchBets = async (bankId: string) => {
     try {
-      const today = new Date().toISOString().split("T")[0];
-      
-      const { data, error } = await supabase
-        .from("bets")
-        .select("*")
-        .eq("bank_id", bankId)
-        .eq("bet_date", today);
+      const data = await fetchAllPages((from, to) => {
+        let query = supabase.from("bets").select("bank_id, amount, status, profit, cashout_stake, bet_date");
 
-      if (error) throw error;
+        if (bankId !== ALL_BANKS) {
+          query = query.eq("bank_id", bankId);
+        }
 
-      const stats = (data || []).reduce(
-        (acc, bet) => {
-          acc.total_bets += 1;
-          if (bet.status === "won") {
-            acc.total_won += 1;
-            acc.net_profit += bet.profit || 0;
-          } else if (bet.status === "lost") {
-            acc.total_lost += 1;
-            acc.net_profit += bet.profit || 0;
-          }
-          return acc;
-        },
-        { total_bets: 0, total_won: 0, total_lost: 0, net_profit: 0 }
-      );
-
-      setDailyStats(stats);
+        return query.order("id").range(from, to);
+      });
+
+      setBets(data);
     } catch (error: any) {
       toast({
         variant: "destructive",
@@ -123,12 +149,41 @@ const Dashboard = () => {
     }
   };
 
-  const selectedBankData = banks.find((b) => b.id === selectedBank);
-  const roi = selectedBankData
-    ? ((selectedBankData.current_balance - selectedBankData.initial_balance) /
-        selectedBankData.initial_balance) *
-      100
-    : 0;
+  const today = new Date().toISOString().split("T")[0];
+  const isAllBanks = selectedBank === ALL_BANKS;
+
+  const bankSummaries = banks
+    .filter((bank) => isAllBanks || bank.id === selectedBank)
+    .map((bank) => {
+      const bankBets = bets.filter((bet) => bet.bank_id === bank.id);
+      return {
+        bank,
+        ...summarizeStakes(bankBets),
+        daily: computeDailyStats(bankBets.filter((bet) => bet.bet_date === today)),
+      };
+    });
+
+  // Money from several banks is only added up after converting it to the reporting currency
+  const currency = isAllBanks
+    ? reportingCurrency
+    : bankSummaries[0]?.bank.currency || DEFAULT_CURRENCY;
+  const sumConverted = (pick: (summary: (typeof bankSummaries)[number]) => number) =>
+    sumInCurrency(
+      bankSummaries.map((summary) => ({ amount: pick(summary), currency: summary.bank.currency })),
+      currency,
+      rates,
+    );
+
+  const balance = sumConverted((summary) => summary.bank.current_balance);
+  const staked = sumConverted((summary) => summary.staked);
+  const profit = sumConverted((summary) => summary.profit);
+  const exposure = sumConverted((summary) => summary.exposure);
+  const dailyProfit = sumConverted((summary) => summary.daily.net_profit);
+  const roi = staked.total > 0 ? (profit.total / staked.total) * 100 : 0;
+  const dailyStats: DailyStats = {
+    ...computeDailyStats(bets.filter((bet) => bet.bet_date === today)),
+    net_profit: dailyProfit.total,
+  };
 
   if (loading) {
     return (
@@ -176,6 +231,7 @@ const Dashboard = () => {
               <SelectValue placeholder="Seleccionar Bank" />
             </SelectTrigger>
             <SelectContent>
+              {banks.length > 1 && <SelectItem value={ALL_BANKS}>Todos los banks</SelectItem>}
               {banks.map((bank) => (
                 <SelectItem key={bank.id} value={bank.id}>
                   {bank.name}
@@ -188,11 +244,13 @@ const Dashboard = () => {
         {/* Balance Card */}
         <Card className="bg-gradient-to-br from-primary via-primary/90 to-primary/80 text-primary-foreground">
           <CardHeader>
-            <CardTitle className="text-lg opacity-90">Balance Actual</CardTitle>
+            <CardTitle className="text-lg opacity-90">
+              {isAllBanks ? `Balance Total (${reportingCurrency})` : "Balance Actual"}
+            </CardTitle>
           </CardHeader>
           <CardContent>
             <div className="text-4xl font-bold mb-2">
-              ${selectedBankData?.current_balance.toFixed(2)}
+              {formatMoney(balance.total, currency)}
             </div>
             <div className="flex items-center gap-4 text-sm opacity-90">
               <span>ROI: {roi.toFixed(2)}%</span>
@@ -200,7 +258,17 @@ const Dashboard = () => {
                 {roi >= 0 ? <TrendingUp className="h-4 w-4" /> : <TrendingDown className="h-4 w-4" />}
                 {roi >= 0 ? "Ganando" : "Perdiendo"}
               </span>
+              <span className="flex items-center gap-1">
+                <Clock className="h-4 w-4" />
+                En juego: {formatMoney(exposure.total, currency)}
+              </span>
             </div>
+            {balance.missing.length > 0 && (
+              <p className="text-xs opacity-90 mt-2">
+                Sin tipo de cambio a {reportingCurrency} para {balance.missing.join(", ")}; esos
+                banks no se incluyen en los totales.
+              </p>
+            )}
           </CardContent>
         </Card>
 
@@ -215,6 +283,9 @@ const Dashboard = () => {
             </CardHeader>
             <CardContent>
               <div className="text-2xl font-bold">{dailyStats.total_bets}</div>
+              {dailyStats.total_void > 0 && (
+                <p className="text-xs text-muted-foreground">{dailyStats.total_void} anuladas</p>
+              )}
             </CardContent>
           </Card>
 
@@ -251,12 +322,61 @@ const Dashboard = () => {
             </CardHeader>
             <CardContent>
               <div className={`text-2xl font-bold ${dailyStats.net_profit >= 0 ? "text-success" : "text-danger"}`}>
-                ${dailyStats.net_profit.toFixed(2)}
+                {formatMoney(dailyStats.net_profit, currency)}
               </div>
             </CardContent>
           </Card>
         </div>
 
+        <BankrollChart
+          banks={bankSummaries.map((summary) => summary.bank)}
+          currency={currency}
+          rates={rates}
+        />
+
+        {/* Per-bank breakdown */}
+        {isAllBanks && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Desglose por Bank</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Bank</TableHead>
+                    <TableHead className="text-right">Balance</TableHead>
+                    <TableHead className="text-right">Hoy</TableHead>
+                    <TableHead className="text-right">En juego</TableHead>
+                    <TableHead className="text-right">ROI</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {bankSummaries.map((summary) => (
+                    <TableRow key={summary.bank.id}>
+                      <TableCell className="font-medium">{summary.bank.name}</TableCell>
+                      <TableCell className="text-right">
+                        {formatMoney(summary.bank.current_balance, summary.bank.currency)}
+                      </TableCell>
+                      <TableCell
+                        className={`text-right ${summary.daily.net_profit >= 0 ? "text-success" : "text-danger"}`}
+                      >
+                        {formatMoney(summary.daily.net_profit, summary.bank.currency, { signed: true })}
+                      </TableCell>
+                      <TableCell className="text-right">
+                        {formatMoney(summary.exposure, summary.bank.currency)}
+                      </TableCell>
+                      <TableCell className={`text-right ${summary.roi >= 0 ? "text-success" : "text-danger"}`}>
+                        {summary.roi.toFixed(2)}%
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </CardContent>
+          </Card>
+        )}
+
         {/* Quick Actions */}
         <Card>
           <CardHeader>
@@ -3,6 +3,8 @@ import { supabase } from "@/integrations/supabase/client";
 import Layout from "@/components/Layout";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
 import {
   Select,
   SelectContent,
@@ -11,46 +13,109 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { Badge } from "@/components/ui/badge";
-import { History as HistoryIcon, ChevronLeft, ChevronRight } from "lucide-react";
+import { History as HistoryIcon, ChevronLeft, ChevronRight, Pencil, Trash2, Download } from "lucide-react";
 import { useToast } from "@/hooks/use-toast";
+import { useUserSettings } from "@/hooks/use-user-settings";
+import { useUndoableBetDelete } from "@/hooks/use-undoable-bet-delete";
+import CashOutDialog from "@/components/CashOutDialog";
+import BetLegsList from "@/components/BetLegsList";
+import BetCombinationsList from "@/components/BetCombinationsList";
+import BetTagsEditor from "@/components/BetTagsEditor";
+import EditBetDialog from "@/components/EditBetDialog";
+import ExportBetsDialog from "@/components/ExportBetsDialog";
+import {
+  BET_STATUSES,
+  BET_STATUS_LABELS,
+  BET_STATUS_PLURAL_LABELS,
+  BET_TYPE_LABELS,
+  BetCombination,
+  BetLeg,
+  BetStatus,
+  isMultiLegBet,
+} from "@/lib/bets";
+import { systemLabel } from "@/lib/systems";
+import { DEFAULT_CURRENCY, formatMoney } from "@/lib/currency";
+import { Taxonomy, describeTaxonomy, fetchTaxonomy } from "@/lib/taxonomy";
+import { Tag, fetchTags, tagsOf } from "@/lib/tags";
+import { formatOdds } from "@/lib/odds";
 
 interface Bank {
   id: string;
   name: string;
+  currency: string;
+  archived_at: string | null;
 }
 
 interface Bet {
   id: string;
+  bank_id: string;
   amount: number;
   odds: number;
-  status: "won" | "lost" | "open";
+  status: BetStatus;
   description: string | null;
   profit: number | null;
+  cashout_amount: number | null;
+  cashout_stake: number | null;
+  bet_type: string;
+  bet_legs: BetLeg[];
+  bet_combinations: BetCombination[];
+  system_sizes: number[] | null;
   bet_date: string;
+  selection: string | null;
+  sport: { name: string } | null;
+  competition: { name: string } | null;
+  market_type: { name: string } | null;
+  bet_tags: { tags: Tag | null }[];
   created_at: string;
 }
 
 const ITEMS_PER_PAGE = 10;
+const BET_COLUMNS =
+  "*, bet_legs(*), bet_combinations(*), bet_tags(tags(id, name)), sport:sports(name), competition:competitions(name), market_type:market_types(name)";
 
 const History = () => {
   const { toast } = useToast();
+  const { oddsFormat } = useUserSettings();
   const [banks, setBanks] = useState<Bank[]>([]);
   const [selectedBank, setSelectedBank] = useState("");
-  const [statusFilter, setStatusFilter] = useState<"all" | "won" | "lost" | "open">("all");
+  const [showArchived, setShowArchived] = useState(false);
+  const [statusFilter, setStatusFilter] = useState<"all" | BetStatus>("all");
+  const [taxonomy, setTaxonomy] = useState<Taxonomy>({ sports: [], competitions: [], marketTypes: [] });
+  const [sportFilter, setSportFilter] = useState("all");
+  const [competitionFilter, setCompetitionFilter] = useState("all");
+  const [marketTypeFilter, setMarketTypeFilter] = useState("all");
+  const [allTags, setAllTags] = useState<Tag[]>([]);
+  const [tagFilter, setTagFilter] = useState("all");
   const [bets, setBets] = useState<Bet[]>([]);
   const [loading, setLoading] = useState(true);
+  const [cashOutBet, setCashOutBet] = useState<Bet | null>(null);
+  const [editBet, setEditBet] = useState<Bet | null>(null);
+  const [isExportOpen, setIsExportOpen] = useState(false);
   const [currentPage, setCurrentPage] = useState(1);
   const [totalBets, setTotalBets] = useState(0);
 
+  const currency = banks.find((bank) => bank.id === selectedBank)?.currency || DEFAULT_CURRENCY;
+  const visibleBanks = banks.filter((bank) => showArchived || !bank.archived_at);
+
   useEffect(() => {
     fetchBanks();
+    fetchAllTags();
+    fetchTaxonomy()
+      .then(setTaxonomy)
+      .catch(() =>
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: "Error al cargar las categorías",
+        }),
+      );
   }, []);
 
   useEffect(() => {
     if (selectedBank) {
       fetchBets();
     }
-  }, [selectedBank, statusFilter, currentPage]);
+  }, [selectedBank, statusFilter, sportFilter, competitionFilter, marketTypeFilter, tagFilter, currentPage]);
 
   const fetchBanks = async () => {
     try {
@@ -59,13 +124,15 @@ const History = () => {
 
       const { data, error } = await supabase
         .from("banks")
-        .select("id, name")
+        .select("id, name, currency, archived_at")
         .order("created_at", { ascending: false });
 
       if (error) throw error;
       setBanks(data || []);
       if (data && data.length > 0) {
-        setSelectedBank(data[0].id);
+        const active = data.find((bank) => !bank.archived_at);
+        setSelectedBank((active || data[0]).id);
+        setShowArchived(!active);
       }
     } catch (error: any) {
       toast({
@@ -78,16 +145,42 @@ const History = () => {
     }
   };
 
+  const fetchAllTags = async () => {
+    try {
+      setAllTags(await fetchTags());
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Error al cargar las etiquetas",
+      });
+    }
+  };
+
   const fetchBets = async () => {
     try {
-      let query = supabase
-        .from("bets")
-        .select("*", { count: "exact" })
-        .eq("bank_id", selectedBank);
+      // The tag filter goes through its own inner join so the bet keeps showing all its tags
+      let query =
+        tagFilter !== "all"
+          ? supabase
+              .from("bets")
+              .select(`${BET_COLUMNS}, tag_filter:bet_tags!inner(tag_id)`, { count: "exact" })
+              .eq("tag_filter.tag_id", tagFilter)
+          : supabase.from("bets").select(BET_COLUMNS, { count: "exact" });
+      query = query.eq("bank_id", selectedBank);
 
       if (statusFilter !== "all") {
         query = query.eq("status", statusFilter);
       }
+      if (sportFilter !== "all") {
+        query = query.eq("sport_id", sportFilter);
+      }
+      if (competitionFilter !== "all") {
+        query = query.eq("competition_id", competitionFilter);
+      }
+      if (marketTypeFilter !== "all") {
+        query = query.eq("market_type_id", marketTypeFilter);
+      }
 
       const { data, error, count } = await query
         .order("bet_date", { ascending: false })
@@ -107,11 +200,14 @@ const History = () => {
     }
   };
 
-  const updateBetStatus = async (betId: string, newStatus: "won" | "lost" | "open") => {
+  const updateBetStatus = async (betId: string, newStatus: BetStatus, clearCashOut = false) => {
     try {
       const { error } = await supabase
         .from("bets")
-        .update({ status: newStatus })
+        .update({
+          status: newStatus,
+          ...(clearCashOut ? { cashout_amount: null, cashout_stake: null } : {}),
+        })
         .eq("id", betId);
 
       if (error) throw error;
@@ -131,14 +227,51 @@ const History = () => {
     }
   };
 
+  const handleShowArchivedChange = (checked: boolean) => {
+    setShowArchived(checked);
+    const active = banks.find((bank) => !bank.archived_at);
+    if (!checked && active && banks.find((bank) => bank.id === selectedBank)?.archived_at) {
+      setSelectedBank(active.id);
+      setCurrentPage(1);
+    }
+  };
+
+  const deleteBet = useUndoableBetDelete(fetchBets);
+
+  const handleDelete = (bet: Bet) => {
+    setBets(bets.filter((b) => b.id !== bet.id));
+    deleteBet(bet.id);
+  };
+
+  const handleBetChanged = () => {
+    fetchAllTags();
+    fetchBets();
+  };
+
+  const handleStatusChange = (bet: Bet, newStatus: BetStatus) => {
+    if (newStatus === "cashed_out") {
+      setCashOutBet(bet);
+      return;
+    }
+    updateBetStatus(bet.id, newStatus, bet.status === "cashed_out");
+  };
+
   const totalPages = Math.ceil(totalBets / ITEMS_PER_PAGE);
 
-  const getStatusBadge = (status: string) => {
+  const getStatusBadge = (status: BetStatus) => {
     switch (status) {
       case "won":
         return <Badge className="bg-success text-success-foreground">Ganada</Badge>;
+      case "half_won":
+        return <Badge className="bg-success/70 text-success-foreground">Medio ganada</Badge>;
       case "lost":
         return <Badge className="bg-danger text-danger-foreground">Perdida</Badge>;
+      case "half_lost":
+        return <Badge className="bg-danger/70 text-danger-foreground">Medio perdida</Badge>;
+      case "void":
+        return <Badge variant="secondary">Anulada</Badge>;
+      case "cashed_out":
+        return <Badge className="bg-warning text-warning-foreground">Cash out</Badge>;
       default:
         return <Badge variant="outline">Abierta</Badge>;
     }
@@ -158,15 +291,29 @@ const History = () => {
     <Layout>
       <div className="p-6 max-w-7xl mx-auto space-y-6">
         {/* Header */}
-        <div>
-          <h1 className="text-3xl font-bold text-foreground">Historial de Apuestas</h1>
-          <p className="text-muted-foreground">Todas tus apuestas registradas</p>
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Historial de Apuestas</h1>
+            <p className="text-muted-foreground">Todas tus apuestas registradas</p>
+          </div>
+          <div className="flex items-center gap-4">
+            {banks.some((bank) => bank.archived_at) && (
+              <div className="flex items-center gap-2">
+                <Switch id="show-archived" checked={showArchived} onCheckedChange={handleShowArchivedChange} />
+                <Label htmlFor="show-archived">Mostrar banks archivados</Label>
+              </div>
+            )}
+            <Button variant="outline" onClick={() => setIsExportOpen(true)} disabled={!selectedBank}>
+              <Download className="mr-2 h-4 w-4" />
+              Exportar CSV
+            </Button>
+          </div>
         </div>
 
         {/* Filters */}
         <Card>
           <CardContent className="pt-6">
-            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+            <div className="grid grid-cols-1 md:grid-cols-3 lg:grid-cols-6 gap-4">
               <div className="space-y-2">
                 <label className="text-sm font-medium">Bank</label>
                 <Select value={selectedBank} onValueChange={(value) => {
@@ -177,9 +324,10 @@ const History = () => {
                     <SelectValue placeholder="Seleccionar bank" />
                   </SelectTrigger>
                   <SelectContent>
-                    {banks.map((bank) => (
+                    {visibleBanks.map((bank) => (
                       <SelectItem key={bank.id} value={bank.id}>
                         {bank.name}
+                        {bank.archived_at && " (archivado)"}
                       </SelectItem>
                     ))}
                   </SelectContent>
@@ -187,7 +335,7 @@ const History = () => {
               </div>
               <div className="space-y-2">
                 <label className="text-sm font-medium">Filtrar por estado</label>
-                <Select value={statusFilter} onValueChange={(value: "all" | "won" | "lost" | "open") => {
+                <Select value={statusFilter} onValueChange={(value: "all" | BetStatus) => {
                   setStatusFilter(value);
                   setCurrentPage(1);
                 }}>
@@ -196,9 +344,90 @@ const History = () => {
                   </SelectTrigger>
                   <SelectContent>
                     <SelectItem value="all">Todas</SelectItem>
-                    <SelectItem value="won">Ganadas</SelectItem>
-                    <SelectItem value="lost">Perdidas</SelectItem>
-                    <SelectItem value="open">Abiertas</SelectItem>
+                    {BET_STATUSES.map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {BET_STATUS_PLURAL_LABELS[value]}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Deporte</label>
+                <Select value={sportFilter} onValueChange={(value) => {
+                  setSportFilter(value);
+                  setCompetitionFilter("all");
+                  setCurrentPage(1);
+                }}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Todos</SelectItem>
+                    {taxonomy.sports.map((sport) => (
+                      <SelectItem key={sport.id} value={sport.id}>
+                        {sport.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Competición</label>
+                <Select value={competitionFilter} onValueChange={(value) => {
+                  setCompetitionFilter(value);
+                  setCurrentPage(1);
+                }}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Todas</SelectItem>
+                    {taxonomy.competitions
+                      .filter((competition) => sportFilter === "all" || competition.sport_id === sportFilter)
+                      .map((competition) => (
+                        <SelectItem key={competition.id} value={competition.id}>
+                          {competition.name}
+                        </SelectItem>
+                      ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Mercado</label>
+                <Select value={marketTypeFilter} onValueChange={(value) => {
+                  setMarketTypeFilter(value);
+                  setCurrentPage(1);
+                }}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Todos</SelectItem>
+                    {taxonomy.marketTypes.map((marketType) => (
+                      <SelectItem key={marketType.id} value={marketType.id}>
+                        {marketType.name}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-sm font-medium">Etiqueta</label>
+                <Select value={tagFilter} onValueChange={(value) => {
+                  setTagFilter(value);
+                  setCurrentPage(1);
+                }}>
+                  <SelectTrigger>
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    <SelectItem value="all">Todas</SelectItem>
+                    {allTags.map((tag) => (
+                      <SelectItem key={tag.id} value={tag.id}>
+                        {tag.name}
+                      </SelectItem>
+                    ))}
                   </SelectContent>
                 </Select>
               </div>
@@ -210,7 +439,7 @@ const History = () => {
         <Card>
           <CardHeader>
             <CardTitle>
-              Historial {statusFilter !== "all" && `- ${statusFilter === "won" ? "Ganadas" : statusFilter === "lost" ? "Perdidas" : "Abiertas"}`}
+              Historial {statusFilter !== "all" && `- ${BET_STATUS_PLURAL_LABELS[statusFilter]}`}
             </CardTitle>
           </CardHeader>
           <CardContent>
@@ -235,29 +464,94 @@ const History = () => {
                               {new Date(bet.bet_date + "T00:00:00").toLocaleDateString()}
                             </span>
                             <span className="text-sm text-muted-foreground">
-                              • Cuota: {bet.odds.toFixed(2)}
+                              • Cuota: {formatOdds(bet.odds, oddsFormat)}
                             </span>
+                            {bet.bet_type === "parlay" && (
+                              <Badge variant="outline">
+                                {BET_TYPE_LABELS.parlay} ({bet.bet_legs.length})
+                              </Badge>
+                            )}
+                            {bet.bet_type === "system" && (
+                              <Badge variant="outline">
+                                {BET_TYPE_LABELS.system}: {systemLabel(bet.bet_legs.length, bet.system_sizes)}
+                              </Badge>
+                            )}
                           </div>
+                          {describeTaxonomy(bet) && (
+                            <p className="text-sm font-medium mb-1">{describeTaxonomy(bet)}</p>
+                          )}
                           <p className="text-sm text-muted-foreground mb-2">
                             {bet.description || "Sin descripción"}
                           </p>
-                          <div className="w-full sm:w-48">
-                            <Select value={bet.status} onValueChange={(value) => updateBetStatus(bet.id, value as "won" | "lost" | "open")}>
-                              <SelectTrigger className="h-8">
-                                <SelectValue />
-                              </SelectTrigger>
-                              <SelectContent>
-                                <SelectItem value="open">Abierta</SelectItem>
-                                <SelectItem value="won">Ganada</SelectItem>
-                                <SelectItem value="lost">Perdida</SelectItem>
-                              </SelectContent>
-                            </Select>
-                          </div>
+                          <BetTagsEditor
+                            betId={bet.id}
+                            tags={tagsOf(bet)}
+                            allTags={allTags}
+                            onChanged={handleBetChanged}
+                          />
+                          {isMultiLegBet(bet.bet_type) ? (
+                            <>
+                              <BetLegsList
+                                legs={bet.bet_legs}
+                                onLegUpdated={fetchBets}
+                                readOnly={bet.status === "cashed_out"}
+                                oddsFormat={oddsFormat}
+                              />
+                              {bet.bet_type === "system" && (
+                                <BetCombinationsList
+                                  combinations={bet.bet_combinations}
+                                  legs={bet.bet_legs}
+                                  currency={currency}
+                                  oddsFormat={oddsFormat}
+                                />
+                              )}
+                              {bet.status === "open" && (
+                                <Button variant="outline" size="sm" onClick={() => setCashOutBet(bet)}>
+                                  Cash Out
+                                </Button>
+                              )}
+                            </>
+                          ) : (
+                            <div className="w-full sm:w-48">
+                              <Select value={bet.status} onValueChange={(value) => handleStatusChange(bet, value as BetStatus)}>
+                                <SelectTrigger className="h-8">
+                                  <SelectValue />
+                                </SelectTrigger>
+                                <SelectContent>
+                                  {BET_STATUSES.map((value) => (
+                                    <SelectItem key={value} value={value}>
+                                      {BET_STATUS_LABELS[value]}
+                                    </SelectItem>
+                                  ))}
+                                </SelectContent>
+                              </Select>
+                            </div>
+                          )}
                         </div>
 
                         <div className="flex flex-col sm:items-end gap-1">
-                          <div className="text-lg font-semibold">
-                            ${bet.amount.toFixed(2)}
+                          <div className="flex items-center gap-2">
+                            <div className="text-lg font-semibold">
+                              {formatMoney(bet.amount, currency)}
+                            </div>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8"
+                              aria-label="Editar apuesta"
+                              onClick={() => setEditBet(bet)}
+                            >
+                              <Pencil className="h-4 w-4" />
+                            </Button>
+                            <Button
+                              variant="ghost"
+                              size="icon"
+                              className="h-8 w-8 text-muted-foreground hover:text-danger"
+                              aria-label="Eliminar apuesta"
+                              onClick={() => handleDelete(bet)}
+                            >
+                              <Trash2 className="h-4 w-4" />
+                            </Button>
                           </div>
                           {bet.profit !== null && bet.status !== "open" && (
                             <div
@@ -265,12 +559,19 @@ const History = () => {
                                 bet.profit >= 0 ? "text-success" : "text-danger"
                               }`}
                             >
-                              {bet.profit >= 0 ? "+" : ""}${bet.profit.toFixed(2)}
+                              {formatMoney(bet.profit, currency, { signed: true })}
+                            </div>
+                          )}
+                          {bet.cashout_amount !== null && (
+                            <div className="text-xs text-muted-foreground">
+                              Cobrado: {formatMoney(bet.cashout_amount, currency)}
+                              {bet.status !== "cashed_out" &&
+                                ` (en juego ${formatMoney(bet.amount - (bet.cashout_stake || 0), currency)})`}
                             </div>
                           )}
                           {bet.status === "won" && (
                             <div className="text-xs text-muted-foreground">
-                              Posible ganancia: ${((bet.amount * bet.odds) - bet.amount).toFixed(2)}
+                              Posible ganancia: {formatMoney((bet.amount * bet.odds) - bet.amount, currency)}
                             </div>
                           )}
                         </div>
@@ -310,6 +611,34 @@ const History = () => {
           </CardContent>
         </Card>
       </div>
+
+      <CashOutDialog
+        bet={cashOutBet}
+        currency={currency}
+        onOpenChange={(open) => !open && setCashOutBet(null)}
+        onCashedOut={fetchBets}
+      />
+
+      <ExportBetsDialog
+        bank={banks.find((bank) => bank.id === selectedBank)}
+        filters={{
+          status: statusFilter,
+          sportId: sportFilter,
+          competitionId: competitionFilter,
+          marketTypeId: marketTypeFilter,
+          tagId: tagFilter,
+        }}
+        open={isExportOpen}
+        onOpenChange={setIsExportOpen}
+      />
+
+      <EditBetDialog
+        bet={editBet}
+        banks={visibleBanks}
+        oddsFormat={oddsFormat}
+        onOpenChange={(open) => !open && setEditBet(null)}
+        onSaved={handleBetChanged}
+      />
     </Layout>
   );
 };
@@ -0,0 +1,531 @@
+import { useEffect, useState } from "react";
+import { useNavigate } from "react-router-dom";
+import { supabase } from "@/integrations/supabase/client";
+import Layout from "@/components/Layout";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import { Badge } from "@/components/ui/badge";
+import { Progress } from "@/components/ui/progress";
+import { Switch } from "@/components/ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { Upload, CheckCircle2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { BET_STATUS_LABELS } from "@/lib/bets";
+import { formatMoney } from "@/lib/currency";
+import {
+  IMPORT_FIELDS,
+  ImportMapping,
+  ImportRow,
+  ImportTable,
+  buildImportRows,
+  duplicateKey,
+  guessMapping,
+  markDuplicates,
+} from "@/lib/import";
+import { fetchAllPages } from "@/lib/pagination";
+import {
+  STATEMENT_ACCEPT,
+  STATEMENT_PARSERS,
+  StatementDelimiter,
+  detectStatementParser,
+  parseStatement,
+} from "@/lib/parsers";
+
+interface Bank {
+  id: string;
+  name: string;
+  currency: string;
+  archived_at: string | null;
+}
+
+type Step = "upload" | "mapping" | "preview" | "done";
+
+const UNMAPPED = "none";
+const AUTO = "auto";
+const BATCH_SIZE = 100;
+
+const Import = () => {
+  const { toast } = useToast();
+  const navigate = useNavigate();
+  const [banks, setBanks] = useState<Bank[]>([]);
+  const [step, setStep] = useState<Step>("upload");
+  const [fileName, setFileName] = useState("");
+  const [parserId, setParserId] = useState(AUTO);
+  const [delimiter, setDelimiter] = useState<StatementDelimiter>("auto");
+  const [headerRow, setHeaderRow] = useState("");
+  const [table, setTable] = useState<ImportTable>({ headers: [], rows: [] });
+  const [mapping, setMapping] = useState<ImportMapping>(guessMapping([]));
+  const [decimal, setDecimal] = useState(",");
+  const [defaultBankId, setDefaultBankId] = useState("");
+  const [rows, setRows] = useState<ImportRow[]>([]);
+  const [skipDuplicates, setSkipDuplicates] = useState(true);
+  const [loading, setLoading] = useState(false);
+  const [progress, setProgress] = useState(0);
+  const [importedCount, setImportedCount] = useState(0);
+
+  useEffect(() => {
+    fetchBanks();
+  }, []);
+
+  const fetchBanks = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("banks")
+        .select("id, name, currency, archived_at")
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      setBanks(data || []);
+      const active = data?.find((bank) => !bank.archived_at);
+      if (active) setDefaultBankId(active.id);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Error al cargar los banks",
+      });
+    }
+  };
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = "";
+    if (!file) return;
+
+    const text = await file.text();
+    const parser = STATEMENT_PARSERS.find((option) => option.id === parserId) || detectStatementParser(text);
+    const { table: parsed, decimal: detectedDecimal } = parseStatement(parser, text, {
+      delimiter,
+      headerRow: headerRow ? parseInt(headerRow) : null,
+    });
+
+    if (parsed.rows.length === 0) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "El archivo no contiene apuestas",
+      });
+      return;
+    }
+
+    setFileName(file.name);
+    setTable(parsed);
+    setMapping(guessMapping(parsed.headers));
+    setDecimal(detectedDecimal);
+    setStep("mapping");
+  };
+
+  const fetchExistingKeys = async (bankIds: string[], from: string, to: string) => {
+    const bets = await fetchAllPages((start, end) =>
+      supabase
+        .from("bets")
+        .select("bank_id, bet_date, amount, odds")
+        .in("bank_id", bankIds)
+        .gte("bet_date", from)
+        .lte("bet_date", to)
+        .order("id")
+        .range(start, end),
+    );
+
+    return new Set(bets.map(duplicateKey));
+  };
+
+  const handlePreview = async () => {
+    const missing = IMPORT_FIELDS.filter(({ field, required }) => required && mapping[field] === null);
+    if (missing.length > 0) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: `Asigna una columna a: ${missing.map(({ label }) => label).join(", ")}`,
+      });
+      return;
+    }
+
+    if (mapping.bank === null && !defaultBankId) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Debes seleccionar un bank",
+      });
+      return;
+    }
+
+    setLoading(true);
+
+    try {
+      const built = buildImportRows(table, { mapping, decimal, banks, defaultBankId });
+      const valid = built.filter((row) => row.errors.length === 0);
+      const dates = valid.map((row) => row.bet_date).sort();
+
+      const existingKeys =
+        valid.length > 0
+          ? await fetchExistingKeys([...new Set(valid.map((row) => row.bankId))], dates[0], dates[dates.length - 1])
+          : new Set<string>();
+
+      setRows(markDuplicates(built, existingKeys));
+      setStep("preview");
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Error al buscar apuestas duplicadas",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const rowsToImport = rows.filter((row) => row.errors.length === 0 && !(skipDuplicates && row.duplicate));
+
+  const handleImport = async () => {
+    setLoading(true);
+    setProgress(0);
+    let imported = 0;
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return;
+
+      for (let start = 0; start < rowsToImport.length; start += BATCH_SIZE) {
+        const batch = rowsToImport.slice(start, start + BATCH_SIZE);
+
+        const { error } = await supabase.from("bets").insert(
+          batch.map((row) => ({
+            user_id: session.user.id,
+            bank_id: row.bankId,
+            amount: row.amount,
+            odds: Math.round(row.odds * 100) / 100,
+            status: row.status,
+            bet_type: "simple",
+            ...(row.status === "cashed_out" && {
+              cashout_amount: row.cashout_amount,
+              cashout_stake: row.amount,
+            }),
+            description: row.description || null,
+            bet_date: row.bet_date,
+          })),
+        );
+
+        if (error) throw error;
+
+        imported += batch.length;
+        setProgress(Math.round((imported / rowsToImport.length) * 100));
+      }
+
+      setImportedCount(imported);
+      setStep("done");
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: `Error al importar las apuestas. Se importaron ${imported} de ${rowsToImport.length}.`,
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleReset = () => {
+    setStep("upload");
+    setFileName("");
+    setTable({ headers: [], rows: [] });
+    setRows([]);
+    setProgress(0);
+  };
+
+  const errorCount = rows.filter((row) => row.errors.length > 0).length;
+  const duplicateCount = rows.filter((row) => row.duplicate).length;
+  const currencyOf = (bankId: string) => banks.find((bank) => bank.id === bankId)?.currency;
+
+  return (
+    <Layout>
+      <div className="p-6 max-w-7xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Importar Apuestas</h1>
+          <p className="text-muted-foreground">
+            Carga tu histórico desde un CSV o desde el extracto de tu casa de apuestas
+          </p>
+        </div>
+
+        {step === "upload" && (
+          <Card>
+            <CardHeader>
+              <CardTitle>1. Selecciona el archivo</CardTitle>
+              <CardDescription>
+                Se admiten archivos separados por punto y coma, comas o tabuladores y páginas
+                del historial guardadas desde el navegador (HTML).
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="import-parser">Formato</Label>
+                  <Select value={parserId} onValueChange={setParserId}>
+                    <SelectTrigger id="import-parser">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value={AUTO}>Detectar automáticamente</SelectItem>
+                      {STATEMENT_PARSERS.map((parser) => (
+                        <SelectItem key={parser.id} value={parser.id}>
+                          {parser.label}
+                        </SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="import-delimiter">Separador</Label>
+                  <Select
+                    value={delimiter}
+                    onValueChange={(value: StatementDelimiter) => setDelimiter(value)}
+                    disabled={parserId === "html"}
+                  >
+                    <SelectTrigger id="import-delimiter">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value="auto">Detectar automáticamente</SelectItem>
+                      <SelectItem value=";">Punto y coma (;)</SelectItem>
+                      <SelectItem value=",">Coma (,)</SelectItem>
+                      <SelectItem value={"\t"}>Tabulador</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="import-header-row">Fila de encabezados (Opcional)</Label>
+                  <Input
+                    id="import-header-row"
+                    type="number"
+                    min="1"
+                    step="1"
+                    placeholder="Automática"
+                    value={headerRow}
+                    onChange={(e) => setHeaderRow(e.target.value)}
+                  />
+                </div>
+              </div>
+              <Label
+                htmlFor="import-file"
+                className="flex flex-col items-center justify-center gap-2 border-2 border-dashed rounded-lg py-12 cursor-pointer hover:bg-muted/50 transition-colors"
+              >
+                <Upload className="h-10 w-10 text-muted-foreground" />
+                <span className="text-muted-foreground">Haz clic para elegir un archivo</span>
+              </Label>
+              <Input
+                id="import-file"
+                type="file"
+                accept={STATEMENT_ACCEPT}
+                className="hidden"
+                onChange={handleFileChange}
+              />
+            </CardContent>
+          </Card>
+        )}
+
+        {step === "mapping" && (
+          <Card>
+            <CardHeader>
+              <CardTitle>2. Asigna las columnas</CardTitle>
+              <CardDescription>
+                {fileName}: {table.rows.length} filas. Indica qué columna corresponde a cada dato.
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-6">
+              <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-4">
+                {IMPORT_FIELDS.map(({ field, label, required }) => (
+                  <div key={field} className="space-y-2">
+                    <Label htmlFor={`mapping-${field}`}>
+                      {label}
+                      {required && " *"}
+                    </Label>
+                    <Select
+                      value={mapping[field] === null ? UNMAPPED : String(mapping[field])}
+                      onValueChange={(value) =>
+                        setMapping({ ...mapping, [field]: value === UNMAPPED ? null : Number(value) })
+                      }
+                    >
+                      <SelectTrigger id={`mapping-${field}`}>
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        <SelectItem value={UNMAPPED}>Sin asignar</SelectItem>
+                        {table.headers.map((header, index) => (
+                          <SelectItem key={index} value={String(index)}>
+                            {header || `Columna ${index + 1}`}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4 border-t pt-4">
+                <div className="space-y-2">
+                  <Label htmlFor="import-default-bank">Bank por defecto</Label>
+                  <Select value={defaultBankId} onValueChange={setDefaultBankId}>
+                    <SelectTrigger id="import-default-bank">
+                      <SelectValue placeholder="Seleccionar bank" />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {banks
+                        .filter((bank) => !bank.archived_at)
+                        .map((bank) => (
+                          <SelectItem key={bank.id} value={bank.id}>
+                            {bank.name} ({bank.currency})
+                          </SelectItem>
+                        ))}
+                    </SelectContent>
+                  </Select>
+                  <p className="text-xs text-muted-foreground">
+                    Se usa cuando no hay columna de bank o la celda está vacía
+                  </p>
+                </div>
+                <div className="space-y-2">
+                  <Label htmlFor="import-decimal">Separador decimal</Label>
+                  <Select value={decimal} onValueChange={setDecimal}>
+                    <SelectTrigger id="import-decimal">
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      <SelectItem value=",">Coma (1,50)</SelectItem>
+                      <SelectItem value=".">Punto (1.50)</SelectItem>
+                    </SelectContent>
+                  </Select>
+                </div>
+              </div>
+
+              <div className="flex justify-between">
+                <Button variant="outline" onClick={handleReset}>
+                  Atrás
+                </Button>
+                <Button onClick={handlePreview} disabled={loading}>
+                  {loading ? "Comprobando..." : "Previsualizar"}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {step === "preview" && (
+          <Card>
+            <CardHeader>
+              <CardTitle>3. Revisa las apuestas</CardTitle>
+              <CardDescription className="flex flex-wrap gap-2 pt-1">
+                <Badge variant="secondary">{rows.length - errorCount} válidas</Badge>
+                {errorCount > 0 && <Badge variant="destructive">{errorCount} con errores</Badge>}
+                {duplicateCount > 0 && <Badge variant="outline">{duplicateCount} posibles duplicados</Badge>}
+              </CardDescription>
+            </CardHeader>
+            <CardContent className="space-y-4">
+              {duplicateCount > 0 && (
+                <div className="flex items-center gap-2">
+                  <Switch id="skip-duplicates" checked={skipDuplicates} onCheckedChange={setSkipDuplicates} />
+                  <Label htmlFor="skip-duplicates">Omitir posibles duplicados</Label>
+                </div>
+              )}
+
+              <div className="max-h-[28rem] overflow-y-auto border rounded-lg">
+                <Table>
+                  <TableHeader>
+                    <TableRow>
+                      <TableHead>Línea</TableHead>
+                      <TableHead>Fecha</TableHead>
+                      <TableHead>Bank</TableHead>
+                      <TableHead className="text-right">Monto</TableHead>
+                      <TableHead className="text-right">Cuota</TableHead>
+                      <TableHead>Resultado</TableHead>
+                      <TableHead>Descripción</TableHead>
+                      <TableHead>Estado</TableHead>
+                    </TableRow>
+                  </TableHeader>
+                  <TableBody>
+                    {rows.map((row) => (
+                      <TableRow
+                        key={row.line}
+                        className={
+                          row.errors.length > 0
+                            ? "bg-danger/10"
+                            : row.duplicate && skipDuplicates
+                              ? "opacity-50"
+                              : ""
+                        }
+                      >
+                        <TableCell className="text-muted-foreground">{row.line}</TableCell>
+                        <TableCell>{row.bet_date}</TableCell>
+                        <TableCell>{row.bankName}</TableCell>
+                        <TableCell className="text-right">
+                          {isNaN(row.amount) ? "—" : formatMoney(row.amount, currencyOf(row.bankId))}
+                        </TableCell>
+                        <TableCell className="text-right">{isNaN(row.odds) ? "—" : row.odds.toFixed(2)}</TableCell>
+                        <TableCell>{BET_STATUS_LABELS[row.status]}</TableCell>
+                        <TableCell className="max-w-xs truncate">{row.description}</TableCell>
+                        <TableCell>
+                          {row.errors.length > 0 ? (
+                            <span className="text-sm text-danger">{row.errors.join(". ")}</span>
+                          ) : row.duplicate ? (
+                            <Badge variant="outline">Posible duplicado</Badge>
+                          ) : (
+                            <Badge variant="secondary">OK</Badge>
+                          )}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </div>
+
+              {loading && <Progress value={progress} />}
+
+              <div className="flex justify-between">
+                <Button variant="outline" onClick={() => setStep("mapping")} disabled={loading}>
+                  Atrás
+                </Button>
+                <Button onClick={handleImport} disabled={loading || rowsToImport.length === 0}>
+                  {loading ? "Importando..." : `Importar ${rowsToImport.length} apuestas`}
+                </Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {step === "done" && (
+          <Card className="text-center py-12">
+            <CardContent>
+              <CheckCircle2 className="h-16 w-16 mx-auto mb-4 text-success" />
+              <h2 className="text-2xl font-bold mb-2">Importación completada</h2>
+              <p className="text-muted-foreground mb-6">
+                Se han importado {importedCount} apuestas y los balances se han recalculado
+              </p>
+              <div className="flex justify-center gap-2">
+                <Button variant="outline" onClick={handleReset}>
+                  Importar otro archivo
+                </Button>
+                <Button onClick={() => navigate("/history")}>Ver historial</Button>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+      </div>
+    </Layout>
+  );
+};
+
+export default Import;
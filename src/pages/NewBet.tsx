@@ -15,28 +15,83 @@ import {
   SelectValue,
 } from "@/components/ui/select";
 import { useToast } from "@/hooks/use-toast";
+import { useUserSettings } from "@/hooks/use-user-settings";
 import { Plus } from "lucide-react";
+import LegsEditor from "@/components/LegsEditor";
+import TagPicker from "@/components/TagPicker";
+import {
+  BET_STATUSES,
+  BET_STATUS_LABELS,
+  BET_TYPE_LABELS,
+  BetStatus,
+  BetType,
+  LegDraft,
+  combineOdds,
+  deriveParlayStatus,
+  emptyLeg,
+  validateBet,
+} from "@/lib/bets";
+import { SYSTEM_PRESETS, buildSystem, deriveSystemStatus } from "@/lib/systems";
+import { DEFAULT_CURRENCY, formatMoney } from "@/lib/currency";
+import {
+  DEFAULT_MARKET_TYPES,
+  DEFAULT_SPORTS,
+  Taxonomy,
+  fetchTaxonomy,
+  matchName,
+  discardTaxonomy,
+  resolveTaxonomy,
+  withDefaults,
+} from "@/lib/taxonomy";
+import { Tag, fetchTags, setBetTags } from "@/lib/tags";
+import { ODDS_PLACEHOLDERS, formatOdds, parseOdds } from "@/lib/odds";
 
 interface Bank {
   id: string;
   name: string;
+  currency: string;
 }
 
 const NewBet = () => {
   const navigate = useNavigate();
   const { toast } = useToast();
+  const { oddsFormat } = useUserSettings();
   const [banks, setBanks] = useState<Bank[]>([]);
+  const [taxonomy, setTaxonomy] = useState<Taxonomy>({ sports: [], competitions: [], marketTypes: [] });
+  const [allTags, setAllTags] = useState<Tag[]>([]);
   const [loading, setLoading] = useState(false);
 
   const [bankId, setBankId] = useState("");
+  const [betType, setBetType] = useState<BetType>("simple");
+  const [legs, setLegs] = useState<LegDraft[]>([emptyLeg(), emptyLeg()]);
+  const [systemId, setSystemId] = useState(SYSTEM_PRESETS[0].id);
+  const [customSystemSize, setCustomSystemSize] = useState("2");
   const [amount, setAmount] = useState("");
   const [odds, setOdds] = useState("");
-  const [status, setStatus] = useState<"open" | "won" | "lost">("open");
+  const [status, setStatus] = useState<BetStatus>("open");
+  const [cashoutAmount, setCashoutAmount] = useState("");
+  const [sport, setSport] = useState("");
+  const [competition, setCompetition] = useState("");
+  const [marketType, setMarketType] = useState("");
+  const [selection, setSelection] = useState("");
+  const [tagNames, setTagNames] = useState<string[]>([]);
   const [description, setDescription] = useState("");
   const [betDate, setBetDate] = useState(new Date().toISOString().split("T")[0]);
 
   useEffect(() => {
     fetchBanks();
+    Promise.all([fetchTaxonomy(), fetchTags()])
+      .then(([taxonomyData, tagsData]) => {
+        setTaxonomy(taxonomyData);
+        setAllTags(tagsData);
+      })
+      .catch(() =>
+        toast({
+          variant: "destructive",
+          title: "Error",
+          description: "Error al cargar las categorías",
+        }),
+      );
   }, []);
 
   const fetchBanks = async () => {
@@ -46,7 +101,8 @@ const NewBet = () => {
 
       const { data, error } = await supabase
         .from("banks")
-        .select("id, name")
+        .select("id, name, currency")
+        .is("archived_at", null)
         .order("created_at", { ascending: false });
 
       if (error) throw error;
@@ -63,35 +119,119 @@ const NewBet = () => {
     }
   };
 
+  const parsedLegs = legs.map((leg, index) => ({
+    position: index,
+    event: leg.event.trim(),
+    selection: leg.selection.trim(),
+    odds: parseOdds(leg.odds, oddsFormat),
+    status: leg.status,
+  }));
+  const isParlay = betType === "parlay";
+  const isSystem = betType === "system";
+  const hasLegs = isParlay || isSystem;
+  const legsForOdds = parsedLegs.map((leg) => ({ ...leg, odds: leg.odds || 1 }));
+  const parlayOdds = combineOdds(legsForOdds);
+  const parlayStatus = deriveParlayStatus(parsedLegs);
+  const simpleOdds = parseOdds(odds, oddsFormat);
+
+  const systemPreset = SYSTEM_PRESETS.find((preset) => preset.id === systemId);
+  const systemSizes = systemPreset ? systemPreset.sizes : [parseInt(customSystemSize)];
+  const system = buildSystem(legsForOdds, systemSizes, parseFloat(amount) || 0);
+  const systemStatus = deriveSystemStatus(system.combinations, system.totalStake);
+  const currency = banks.find((bank) => bank.id === bankId)?.currency || DEFAULT_CURRENCY;
+
+  const sportNames = taxonomy.sports.map((s) => s.name);
+  const matchedSport = taxonomy.sports.find((s) => s.name === matchName(sportNames, sport));
+  const competitionNames = taxonomy.competitions
+    .filter((c) => c.sport_id === matchedSport?.id)
+    .map((c) => c.name);
+  const marketTypeNames = taxonomy.marketTypes.map((m) => m.name);
+
+  const handleBetTypeChange = (value: BetType) => {
+    setBetType(value);
+    if (value === "system" && systemPreset) {
+      resizeLegs(systemPreset.legs);
+    }
+  };
+
+  const handleSystemChange = (value: string) => {
+    setSystemId(value);
+    const preset = SYSTEM_PRESETS.find((p) => p.id === value);
+    if (preset) {
+      resizeLegs(preset.legs);
+    }
+  };
+
+  const resizeLegs = (count: number) => {
+    setLegs((current) =>
+      current.length >= count
+        ? current.slice(0, count)
+        : [...current, ...Array.from({ length: count - current.length }, emptyLeg)],
+    );
+  };
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
 
-    const betAmount = parseFloat(amount);
-    const betOdds = parseFloat(odds);
+    const betAmount = isSystem ? system.totalStake : parseFloat(amount);
+    const betOdds = isParlay
+      ? parlayOdds
+      : isSystem
+        ? system.maxReturn / system.totalStake
+        : simpleOdds;
 
-    if (isNaN(betAmount) || betAmount <= 0) {
+    if (isParlay && parsedLegs.length < 2) {
       toast({
         variant: "destructive",
         title: "Error",
-        description: "El monto debe ser un número positivo",
+        description: "Una combinada necesita al menos 2 selecciones",
       });
       return;
     }
 
-    if (isNaN(betOdds) || betOdds < 1) {
+    if (isSystem && (system.combinations.length === 0 || (systemPreset && parsedLegs.length !== systemPreset.legs))) {
       toast({
         variant: "destructive",
         title: "Error",
-        description: "La cuota debe ser mayor o igual a 1",
+        description: systemPreset
+          ? `Un ${systemPreset.label} necesita exactamente ${systemPreset.legs} selecciones`
+          : "El tamaño de combinación debe estar entre 1 y el número de selecciones",
       });
       return;
     }
 
-    if (!bankId) {
+    if (hasLegs && parsedLegs.some((leg) => !leg.event || !leg.selection || isNaN(leg.odds) || leg.odds < 1)) {
       toast({
         variant: "destructive",
         title: "Error",
-        description: "Debes seleccionar un bank",
+        description: "Cada selección necesita evento, selección y una cuota válida",
+      });
+      return;
+    }
+
+    const betCashout = parseFloat(cashoutAmount);
+    const validationError = validateBet({
+      bankId,
+      amount: betAmount,
+      odds: betOdds,
+      status,
+      cashoutAmount: betCashout,
+      hasLegs,
+    });
+    if (validationError) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: validationError,
+      });
+      return;
+    }
+
+    if (competition.trim() && !sport.trim()) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Indica el deporte de la competición",
       });
       return;
     }
@@ -102,17 +242,74 @@ const NewBet = () => {
       const { data: { session } } = await supabase.auth.getSession();
       if (!session) return;
 
-      const { error } = await supabase.from("bets").insert({
-        user_id: session.user.id,
-        bank_id: bankId,
-        amount: betAmount,
-        odds: betOdds,
-        status: status,
-        description: description,
-        bet_date: betDate,
-      });
+      const resolved = await resolveTaxonomy(session.user.id, taxonomy, { sport, competition, marketType });
+      const { sportId, competitionId, marketTypeId } = resolved;
 
-      if (error) throw error;
+      try {
+        const { data: bet, error } = await supabase
+          .from("bets")
+          .insert({
+            user_id: session.user.id,
+            bank_id: bankId,
+            amount: betAmount,
+            odds: Math.round(betOdds * 100) / 100,
+            // The database derives the status of parlays and systems from their legs
+            status: hasLegs ? "open" : status,
+            bet_type: betType,
+            ...(isSystem && { system_sizes: systemSizes }),
+            ...(!hasLegs && status === "cashed_out" && {
+              cashout_amount: betCashout,
+              cashout_stake: betAmount,
+            }),
+            sport_id: sportId,
+            competition_id: competitionId,
+            market_type_id: marketTypeId,
+            selection: (!hasLegs && selection.trim()) || null,
+            description: description,
+            bet_date: betDate,
+          })
+          .select("id")
+          .single();
+
+        if (error) throw error;
+
+        if (hasLegs) {
+          const { data: insertedLegs, error: legsError } = await supabase
+            .from("bet_legs")
+            .insert(parsedLegs.map((leg) => ({ ...leg, bet_id: bet.id, user_id: session.user.id })))
+            .select("id, position");
+
+          let combinationsError = null;
+          if (!legsError && isSystem) {
+            const legIds = new Map(insertedLegs.map((leg) => [leg.position, leg.id]));
+            ({ error: combinationsError } = await supabase.from("bet_combinations").insert(
+              system.combinations.map((combo) => ({
+                bet_id: bet.id,
+                user_id: session.user.id,
+                leg_ids: combo.legIndexes.map((index) => legIds.get(index)),
+                stake: parseFloat(amount),
+                odds: Math.round(combo.odds * 100) / 100,
+                status: combo.status,
+              })),
+            ));
+          }
+
+          if (legsError || combinationsError) {
+            await supabase.from("bets").delete().eq("id", bet.id);
+            throw legsError || combinationsError;
+          }
+        }
+
+        try {
+          await setBetTags(session.user.id, bet.id, tagNames);
+        } catch (tagsError) {
+          await supabase.from("bets").delete().eq("id", bet.id);
+          throw tagsError;
+        }
+      } catch (saveError) {
+        await discardTaxonomy(resolved);
+        throw saveError;
+      }
 
       toast({
         title: "Apuesta registrada",
@@ -123,6 +320,13 @@ const NewBet = () => {
       setAmount("");
       setOdds("");
       setStatus("open");
+      setCashoutAmount("");
+      setLegs([emptyLeg(), emptyLeg()]);
+      setSport("");
+      setCompetition("");
+      setMarketType("");
+      setSelection("");
+      setTagNames([]);
       setDescription("");
       setBetDate(new Date().toISOString().split("T")[0]);
 
@@ -179,16 +383,76 @@ const NewBet = () => {
                   <SelectContent>
                     {banks.map((bank) => (
                       <SelectItem key={bank.id} value={bank.id}>
-                        {bank.name}
+                        {bank.name} ({bank.currency})
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="bet-type">Tipo de Apuesta</Label>
+                <Select value={betType} onValueChange={handleBetTypeChange}>
+                  <SelectTrigger id="bet-type">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {(Object.keys(BET_TYPE_LABELS) as BetType[]).map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {BET_TYPE_LABELS[value]}
                       </SelectItem>
                     ))}
                   </SelectContent>
                 </Select>
               </div>
 
+              {isSystem && (
+                <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                  <div className="space-y-2">
+                    <Label htmlFor="system">Sistema</Label>
+                    <Select value={systemId} onValueChange={handleSystemChange}>
+                      <SelectTrigger id="system">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {SYSTEM_PRESETS.map((preset) => (
+                          <SelectItem key={preset.id} value={preset.id}>
+                            {preset.label} ({preset.legs} selecciones)
+                          </SelectItem>
+                        ))}
+                        <SelectItem value="custom">Personalizado (k de n)</SelectItem>
+                      </SelectContent>
+                    </Select>
+                  </div>
+                  {!systemPreset && (
+                    <div className="space-y-2">
+                      <Label htmlFor="system-size">Selecciones por Combinación</Label>
+                      <Input
+                        id="system-size"
+                        type="number"
+                        min="1"
+                        max={legs.length}
+                        value={customSystemSize}
+                        onChange={(e) => setCustomSystemSize(e.target.value)}
+                        required
+                      />
+                    </div>
+                  )}
+                </div>
+              )}
+
+              {hasLegs && (
+                <LegsEditor
+                  legs={legs}
+                  onChange={setLegs}
+                  minLegs={systemPreset && isSystem ? systemPreset.legs : 2}
+                  oddsFormat={oddsFormat}
+                />
+              )}
+
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                 <div className="space-y-2">
-                  <Label htmlFor="amount">Monto Apostado</Label>
+                  <Label htmlFor="amount">{isSystem ? "Stake por Combinación" : "Monto Apostado"}</Label>
                   <Input
                     id="amount"
                     type="number"
@@ -201,32 +465,74 @@ const NewBet = () => {
                 </div>
 
                 <div className="space-y-2">
-                  <Label htmlFor="odds">Cuota</Label>
-                  <Input
-                    id="odds"
-                    type="number"
-                    step="0.01"
-                    placeholder="2.50"
-                    value={odds}
-                    onChange={(e) => setOdds(e.target.value)}
-                    required
-                  />
+                  <Label htmlFor="odds">
+                    {isParlay ? "Cuota Combinada" : isSystem ? "Retorno Máximo" : "Cuota"}
+                  </Label>
+                  {isParlay ? (
+                    <Input id="odds" value={formatOdds(parlayOdds, oddsFormat)} readOnly disabled />
+                  ) : isSystem ? (
+                    <Input id="odds" value={formatMoney(system.maxReturn, currency)} readOnly disabled />
+                  ) : (
+                    <Input
+                      id="odds"
+                      placeholder={ODDS_PLACEHOLDERS[oddsFormat]}
+                      value={odds}
+                      onChange={(e) => setOdds(e.target.value)}
+                      required
+                    />
+                  )}
+                  {!hasLegs && !isNaN(simpleOdds) && parseFloat(odds.replace(",", ".")) !== simpleOdds && (
+                    <p className="text-xs text-muted-foreground">Cuota decimal: {simpleOdds.toFixed(2)}</p>
+                  )}
                 </div>
               </div>
 
+              {isSystem && system.combinations.length > 0 && (
+                <div className="border rounded-lg p-3 space-y-2">
+                  <div className="flex justify-between text-sm font-medium">
+                    <span>{system.combinations.length} combinaciones</span>
+                    <span>Stake total: {formatMoney(system.totalStake, currency)}</span>
+                  </div>
+                  <div className="max-h-48 overflow-y-auto space-y-1">
+                    {system.combinations.map((combo) => (
+                      <div
+                        key={combo.legIndexes.join("-")}
+                        className="flex justify-between text-xs text-muted-foreground"
+                      >
+                        <span>{combo.legIndexes.map((index) => index + 1).join(" + ")}</span>
+                        <span>
+                          @ {formatOdds(combo.odds, oddsFormat)} → {formatMoney(combo.potentialReturn, currency)}
+                        </span>
+                      </div>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
                 <div className="space-y-2">
                   <Label htmlFor="status">Resultado</Label>
-                  <Select value={status} onValueChange={(value: any) => setStatus(value)}>
-                    <SelectTrigger id="status">
-                      <SelectValue />
-                    </SelectTrigger>
-                    <SelectContent>
-                      <SelectItem value="open">Abierta</SelectItem>
-                      <SelectItem value="won">Ganada</SelectItem>
-                      <SelectItem value="lost">Perdida</SelectItem>
-                    </SelectContent>
-                  </Select>
+                  {hasLegs ? (
+                    <Input
+                      id="status"
+                      value={BET_STATUS_LABELS[isSystem ? systemStatus : parlayStatus]}
+                      readOnly
+                      disabled
+                    />
+                  ) : (
+                    <Select value={status} onValueChange={(value: BetStatus) => setStatus(value)}>
+                      <SelectTrigger id="status">
+                        <SelectValue />
+                      </SelectTrigger>
+                      <SelectContent>
+                        {BET_STATUSES.map((value) => (
+                          <SelectItem key={value} value={value}>
+                            {BET_STATUS_LABELS[value]}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
                 </div>
 
                 <div className="space-y-2">
@@ -241,6 +547,89 @@ const NewBet = () => {
                 </div>
               </div>
 
+              {!hasLegs && status === "cashed_out" && (
+                <div className="space-y-2">
+                  <Label htmlFor="cashout-amount">Importe Cobrado</Label>
+                  <Input
+                    id="cashout-amount"
+                    type="number"
+                    step="0.01"
+                    placeholder="0.00"
+                    value={cashoutAmount}
+                    onChange={(e) => setCashoutAmount(e.target.value)}
+                    required
+                  />
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-4">
+                <div className="space-y-2">
+                  <Label htmlFor="sport">Deporte (Opcional)</Label>
+                  <Input
+                    id="sport"
+                    list="sport-options"
+                    placeholder="Ej: Fútbol"
+                    value={sport}
+                    onChange={(e) => setSport(e.target.value)}
+                  />
+                  <datalist id="sport-options">
+                    {withDefaults(sportNames, DEFAULT_SPORTS).map((name) => (
+                      <option key={name} value={name} />
+                    ))}
+                  </datalist>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="competition">Competición (Opcional)</Label>
+                  <Input
+                    id="competition"
+                    list="competition-options"
+                    placeholder={sport.trim() ? "Ej: LaLiga" : "Indica antes el deporte"}
+                    value={competition}
+                    onChange={(e) => setCompetition(e.target.value)}
+                    disabled={!sport.trim()}
+                  />
+                  <datalist id="competition-options">
+                    {competitionNames.map((name) => (
+                      <option key={name} value={name} />
+                    ))}
+                  </datalist>
+                </div>
+
+                <div className="space-y-2">
+                  <Label htmlFor="market-type">Mercado (Opcional)</Label>
+                  <Input
+                    id="market-type"
+                    list="market-type-options"
+                    placeholder="Ej: Over/Under"
+                    value={marketType}
+                    onChange={(e) => setMarketType(e.target.value)}
+                  />
+                  <datalist id="market-type-options">
+                    {withDefaults(marketTypeNames, DEFAULT_MARKET_TYPES).map((name) => (
+                      <option key={name} value={name} />
+                    ))}
+                  </datalist>
+                </div>
+
+                {!hasLegs && (
+                  <div className="space-y-2">
+                    <Label htmlFor="selection">Selección (Opcional)</Label>
+                    <Input
+                      id="selection"
+                      placeholder="Ej: Over 2.5 goles"
+                      value={selection}
+                      onChange={(e) => setSelection(e.target.value)}
+                    />
+                  </div>
+                )}
+              </div>
+
+              <div className="space-y-2">
+                <Label htmlFor="tags">Etiquetas (Opcional)</Label>
+                <TagPicker tags={allTags} value={tagNames} onChange={setTagNames} />
+              </div>
+
               <div className="space-y-2">
                 <Label htmlFor="description">Descripción (Opcional)</Label>
                 <Textarea
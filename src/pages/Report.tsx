@@ -0,0 +1,506 @@
+import { useEffect, useRef, useState } from "react";
+import { CartesianGrid, Line, LineChart, XAxis, YAxis } from "recharts";
+import { supabase } from "@/integrations/supabase/client";
+import Layout from "@/components/Layout";
+import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Checkbox } from "@/components/ui/checkbox";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import { ChartConfig, ChartContainer } from "@/components/ui/chart";
+import { Download, Printer } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useUserSettings } from "@/hooks/use-user-settings";
+import { computeMetrics } from "@/lib/analytics";
+import { buildBalanceSeries, sliceSeries } from "@/lib/bankroll";
+import { BET_STATUS_LABELS, BET_TYPE_LABELS, BetStatus, BetType } from "@/lib/bets";
+import { convertAmount, formatMoney } from "@/lib/currency";
+import { formatOdds } from "@/lib/odds";
+import { fetchAllPages } from "@/lib/pagination";
+import { downloadPdf } from "@/lib/pdf";
+import { BankTransactionType, signedTransactionAmount } from "@/lib/transactions";
+
+interface Bank {
+  id: string;
+  name: string;
+  currency: string;
+  initial_balance: number;
+  archived_at: string | null;
+}
+
+interface ReportBet {
+  id: string;
+  bank_id: string;
+  amount: number;
+  odds: number;
+  status: BetStatus;
+  profit: number | null;
+  bet_type: string;
+  description: string | null;
+  bet_date: string;
+  created_at: string;
+}
+
+interface PriorBet {
+  bank_id: string;
+  profit: number | null;
+}
+
+interface ReportMovement {
+  bank_id: string;
+  type: BankTransactionType;
+  amount: number;
+  transaction_date: string;
+}
+
+const TOP_BETS = 5;
+
+const chartConfig = {
+  balance: { label: "Balance", color: "hsl(var(--primary))" },
+} satisfies ChartConfig;
+
+const currentMonth = () => new Date().toISOString().slice(0, 7);
+
+// First and last day of a "YYYY-MM" month
+const monthBounds = (month: string) => {
+  const [year, monthIndex] = month.split("-").map(Number);
+  const lastDay = new Date(Date.UTC(year, monthIndex, 0)).getUTCDate();
+  return { start: `${month}-01`, end: `${month}-${String(lastDay).padStart(2, "0")}` };
+};
+
+const formatMonth = (month: string) =>
+  new Date(month + "-01T00:00:00").toLocaleDateString(undefined, { month: "long", year: "numeric" });
+
+const formatDay = (date: string) =>
+  new Date(date + "T00:00:00").toLocaleDateString(undefined, { day: "numeric", month: "short" });
+
+const Report = () => {
+  const { toast } = useToast();
+  const { reportingCurrency, oddsFormat, rates } = useUserSettings();
+  const [banks, setBanks] = useState<Bank[]>([]);
+  const [selectedBankIds, setSelectedBankIds] = useState<string[]>([]);
+  const [month, setMonth] = useState(currentMonth);
+  const [bets, setBets] = useState<ReportBet[]>([]);
+  const [priorBets, setPriorBets] = useState<PriorBet[]>([]);
+  const [movements, setMovements] = useState<ReportMovement[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [exporting, setExporting] = useState(false);
+  const reportRef = useRef<HTMLDivElement>(null);
+  const historyRequest = useRef(0);
+
+  useEffect(() => {
+    fetchBanks();
+  }, []);
+
+  useEffect(() => {
+    if (selectedBankIds.length > 0) {
+      fetchHistory();
+    } else {
+      historyRequest.current++;
+      setBets([]);
+      setPriorBets([]);
+      setMovements([]);
+    }
+  }, [selectedBankIds, month]);
+
+  const fetchBanks = async () => {
+    try {
+      const { data, error } = await supabase
+        .from("banks")
+        .select("id, name, currency, initial_balance, archived_at")
+        .order("created_at", { ascending: false });
+
+      if (error) throw error;
+      setBanks(data || []);
+      setSelectedBankIds((data || []).filter((bank) => !bank.archived_at).map((bank) => bank.id));
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Error al cargar los banks",
+      });
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  // The month's bets in full; for earlier months only what moves the balance, which can be
+  // thousands of rows, so every query is paged. A response that arrives after the month or the
+  // banks changed again is dropped, so it cannot overwrite the newer selection.
+  const fetchHistory = async () => {
+    const request = ++historyRequest.current;
+    const { start, end } = monthBounds(month);
+
+    try {
+      const [monthRows, priorRows, movementRows] = await Promise.all([
+        fetchAllPages((from, to) =>
+          supabase
+            .from("bets")
+            .select("id, bank_id, amount, odds, status, profit, bet_type, description, bet_date, created_at")
+            .in("bank_id", selectedBankIds)
+            .gte("bet_date", start)
+            .lte("bet_date", end)
+            .order("id")
+            .range(from, to),
+        ),
+        fetchAllPages((from, to) =>
+          supabase
+            .from("bets")
+            .select("bank_id, profit")
+            .in("bank_id", selectedBankIds)
+            .lt("bet_date", start)
+            .neq("profit", 0)
+            .order("id")
+            .range(from, to),
+        ),
+        fetchAllPages((from, to) =>
+          supabase
+            .from("bank_transactions")
+            .select("bank_id, type, amount, transaction_date")
+            .in("bank_id", selectedBankIds)
+            .lte("transaction_date", end)
+            .order("id")
+            .range(from, to),
+        ),
+      ]);
+      if (request !== historyRequest.current) return;
+
+      setBets(monthRows);
+      setPriorBets(priorRows);
+      setMovements(movementRows);
+    } catch (error) {
+      if (request !== historyRequest.current) return;
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Error al cargar el informe",
+      });
+    }
+  };
+
+  const toggleBank = (bankId: string, checked: boolean) => {
+    setSelectedBankIds(
+      checked ? [...selectedBankIds, bankId] : selectedBankIds.filter((id) => id !== bankId),
+    );
+  };
+
+  // The title becomes the file name if the user saves the printout as a PDF
+  const handlePrint = () => {
+    const previousTitle = document.title;
+    document.title = `informe-${month}`;
+    window.print();
+    document.title = previousTitle;
+  };
+
+  const handleDownload = async () => {
+    if (!reportRef.current) return;
+    setExporting(true);
+
+    try {
+      await downloadPdf(reportRef.current, `informe-${month}.pdf`);
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Error al generar el PDF",
+      });
+    } finally {
+      setExporting(false);
+    }
+  };
+
+  const selectedBanks = banks.filter((bank) => selectedBankIds.includes(bank.id));
+  const currency = selectedBanks.length === 1 ? selectedBanks[0].currency : reportingCurrency;
+
+  // Amounts from banks in other currencies are converted; those without a rate are left out
+  const missingCurrencies = new Set<string>();
+  const convert = (amount: number, bankId: string) => {
+    const bankCurrency = banks.find((bank) => bank.id === bankId)?.currency || currency;
+    const converted = convertAmount(amount, bankCurrency, currency, rates);
+    if (converted === null) missingCurrencies.add(bankCurrency);
+    return converted;
+  };
+
+  const { start } = monthBounds(month);
+
+  const monthBets = bets
+    .flatMap((bet) => {
+      const amount = convert(bet.amount, bet.bank_id);
+      const profit = convert(bet.profit || 0, bet.bank_id);
+      return amount === null || profit === null ? [] : [{ ...bet, amount, profit }];
+    })
+    .sort((a, b) => a.bet_date.localeCompare(b.bet_date) || a.created_at.localeCompare(b.created_at));
+
+  const movementEvents = movements.map((movement) => ({
+    date: movement.transaction_date,
+    amount: convert(signedTransactionAmount(movement), movement.bank_id) ?? 0,
+  }));
+
+  const openingBalance =
+    selectedBanks.reduce((acc, bank) => acc + (convert(bank.initial_balance, bank.id) ?? 0), 0) +
+    priorBets.reduce((acc, bet) => acc + (convert(bet.profit || 0, bet.bank_id) ?? 0), 0) +
+    movementEvents.filter((event) => event.date < start).reduce((acc, event) => acc + event.amount, 0);
+  const events = [
+    ...monthBets.filter((bet) => bet.profit).map((bet) => ({ date: bet.bet_date, amount: bet.profit })),
+    ...movementEvents.filter((event) => event.date >= start),
+  ];
+  const series = sliceSeries(buildBalanceSeries(openingBalance, events), openingBalance, start);
+  const closingBalance = events.reduce((acc, event) => acc + event.amount, openingBalance);
+
+  const metrics = computeMetrics(monthBets);
+  const settled = monthBets.filter((bet) => bet.status !== "open");
+  const topWins = settled
+    .filter((bet) => bet.profit > 0)
+    .sort((a, b) => b.profit - a.profit)
+    .slice(0, TOP_BETS);
+  const topLosses = settled
+    .filter((bet) => bet.profit < 0)
+    .sort((a, b) => a.profit - b.profit)
+    .slice(0, TOP_BETS);
+
+  const bankName = (bankId: string) => banks.find((bank) => bank.id === bankId)?.name || "";
+
+  const metricCards = [
+    { label: "Balance Inicial", value: formatMoney(openingBalance, currency) },
+    { label: "Balance Final", value: formatMoney(closingBalance, currency) },
+    { label: "Total Apostado", value: formatMoney(metrics.staked, currency) },
+    {
+      label: "Beneficio",
+      value: formatMoney(metrics.profit, currency, { signed: true }),
+      tone: metrics.profit >= 0 ? "text-success" : "text-danger",
+    },
+    {
+      label: "Yield",
+      value: `${metrics.yield.toFixed(2)}%`,
+      tone: metrics.yield >= 0 ? "text-success" : "text-danger",
+    },
+    { label: "Acierto", value: `${metrics.strikeRate.toFixed(1)}%` },
+    {
+      label: "Drawdown Máximo",
+      value: formatMoney(-metrics.drawdown.amount, currency),
+      tone: metrics.drawdown.amount > 0 ? "text-danger" : undefined,
+    },
+    { label: "Apuestas", value: `${metrics.settledCount} liquidadas de ${monthBets.length}` },
+  ];
+
+  const renderTopBets = (title: string, list: typeof settled) => (
+    <Card className="break-inside-avoid">
+      <CardHeader>
+        <CardTitle>{title}</CardTitle>
+      </CardHeader>
+      <CardContent>
+        {list.length === 0 ? (
+          <p className="text-sm text-muted-foreground">Ninguna en el periodo</p>
+        ) : (
+          <div className="space-y-2">
+            {list.map((bet) => (
+              <div key={bet.id} className="flex items-center justify-between gap-4 text-sm">
+                <span className="truncate">
+                  {formatDay(bet.bet_date)} · {bet.description || "Apuesta"} @ {formatOdds(bet.odds, oddsFormat)}
+                </span>
+                <span className={`font-semibold ${bet.profit >= 0 ? "text-success" : "text-danger"}`}>
+                  {formatMoney(bet.profit, currency, { signed: true })}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+
+  if (loading) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-screen">
+          <div className="animate-pulse text-muted-foreground">Cargando...</div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div ref={reportRef} className="p-6 max-w-5xl mx-auto space-y-6 print:p-0 print:max-w-none">
+        {/* Header */}
+        <div className="flex flex-col sm:flex-row justify-between items-start sm:items-end gap-4">
+          <div>
+            <h1 className="text-3xl font-bold text-foreground">Informe Mensual</h1>
+            <p className="text-muted-foreground capitalize">
+              {formatMonth(month)} · {selectedBanks.map((bank) => bank.name).join(", ") || "Sin banks"}
+            </p>
+          </div>
+          <div className="flex gap-2 print:hidden">
+            <Button variant="outline" onClick={handlePrint} disabled={selectedBanks.length === 0}>
+              <Printer className="h-4 w-4 mr-2" />
+              Imprimir
+            </Button>
+            <Button onClick={handleDownload} disabled={selectedBanks.length === 0 || exporting}>
+              <Download className="h-4 w-4 mr-2" />
+              {exporting ? "Generando..." : "Descargar PDF"}
+            </Button>
+          </div>
+        </div>
+
+        {/* Filters */}
+        <Card className="print:hidden">
+          <CardContent className="pt-6 grid grid-cols-1 md:grid-cols-3 gap-6">
+            <div className="space-y-2">
+              <Label htmlFor="report-month">Mes</Label>
+              <Input
+                id="report-month"
+                type="month"
+                value={month}
+                max={currentMonth()}
+                onChange={(e) => e.target.value && setMonth(e.target.value)}
+              />
+            </div>
+            <div className="space-y-2 md:col-span-2">
+              <Label>Banks</Label>
+              <div className="grid grid-cols-1 sm:grid-cols-2 gap-2">
+                {banks.map((bank) => (
+                  <div key={bank.id} className="flex items-center gap-2">
+                    <Checkbox
+                      id={`report-bank-${bank.id}`}
+                      checked={selectedBankIds.includes(bank.id)}
+                      onCheckedChange={(checked) => toggleBank(bank.id, checked === true)}
+                    />
+                    <Label htmlFor={`report-bank-${bank.id}`} className="font-normal">
+                      {bank.name} ({bank.currency})
+                      {bank.archived_at && " (archivado)"}
+                    </Label>
+                  </div>
+                ))}
+              </div>
+            </div>
+          </CardContent>
+        </Card>
+
+        {missingCurrencies.size > 0 && (
+          <p className="text-sm text-warning">
+            Sin tipo de cambio a {currency} para {[...missingCurrencies].join(", ")}; esos importes
+            no se incluyen.
+          </p>
+        )}
+
+        {/* Metrics */}
+        <div className="grid grid-cols-2 lg:grid-cols-4 print:grid-cols-4 gap-4">
+          {metricCards.map((metric) => (
+            <Card key={metric.label} className="break-inside-avoid">
+              <CardHeader className="pb-2">
+                <CardTitle className="text-sm font-medium text-muted-foreground">{metric.label}</CardTitle>
+              </CardHeader>
+              <CardContent>
+                <div className={`text-xl font-bold ${metric.tone || ""}`}>{metric.value}</div>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
+        {/* Balance */}
+        <Card className="break-inside-avoid">
+          <CardHeader>
+            <CardTitle>Evolución del Balance</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {series.length < 2 ? (
+              <p className="text-sm text-muted-foreground text-center py-12">
+                No hay suficientes movimientos en este periodo
+              </p>
+            ) : (
+              <ChartContainer config={chartConfig} className="aspect-auto h-64 w-full">
+                <LineChart data={series} margin={{ left: 12, right: 12 }}>
+                  <CartesianGrid vertical={false} />
+                  <XAxis dataKey="date" tickLine={false} axisLine={false} minTickGap={32} tickFormatter={formatDay} />
+                  <YAxis
+                    tickLine={false}
+                    axisLine={false}
+                    width={80}
+                    tickFormatter={(value: number) => formatMoney(value, currency)}
+                  />
+                  <Line
+                    dataKey="balance"
+                    type="monotone"
+                    stroke="var(--color-balance)"
+                    strokeWidth={2}
+                    dot={false}
+                    isAnimationActive={false}
+                  />
+                </LineChart>
+              </ChartContainer>
+            )}
+          </CardContent>
+        </Card>
+
+        {/* Top bets */}
+        <div className="grid grid-cols-1 md:grid-cols-2 print:grid-cols-2 gap-4">
+          {renderTopBets("Mejores Apuestas", topWins)}
+          {renderTopBets("Peores Apuestas", topLosses)}
+        </div>
+
+        {/* Bet list */}
+        <Card>
+          <CardHeader>
+            <CardTitle>Apuestas del Mes</CardTitle>
+          </CardHeader>
+          <CardContent>
+            {monthBets.length === 0 ? (
+              <p className="text-sm text-muted-foreground text-center py-8">
+                No hay apuestas en el periodo
+              </p>
+            ) : (
+              <Table>
+                <TableHeader>
+                  <TableRow>
+                    <TableHead>Fecha</TableHead>
+                    {selectedBanks.length > 1 && <TableHead>Bank</TableHead>}
+                    <TableHead>Descripción</TableHead>
+                    <TableHead>Tipo</TableHead>
+                    <TableHead className="text-right">Cuota</TableHead>
+                    <TableHead className="text-right">Monto</TableHead>
+                    <TableHead>Resultado</TableHead>
+                    <TableHead className="text-right">Beneficio</TableHead>
+                  </TableRow>
+                </TableHeader>
+                <TableBody>
+                  {monthBets.map((bet) => (
+                    <TableRow key={bet.id} className="break-inside-avoid">
+                      <TableCell className="whitespace-nowrap">{formatDay(bet.bet_date)}</TableCell>
+                      {selectedBanks.length > 1 && <TableCell>{bankName(bet.bank_id)}</TableCell>}
+                      <TableCell>{bet.description || "-"}</TableCell>
+                      <TableCell>{BET_TYPE_LABELS[bet.bet_type as BetType]}</TableCell>
+                      <TableCell className="text-right">{formatOdds(bet.odds, oddsFormat)}</TableCell>
+                      <TableCell className="text-right">{formatMoney(bet.amount, currency)}</TableCell>
+                      <TableCell>{BET_STATUS_LABELS[bet.status]}</TableCell>
+                      <TableCell
+                        className={`text-right ${
+                          bet.status === "open" ? "" : bet.profit >= 0 ? "text-success" : "text-danger"
+                        }`}
+                      >
+                        {bet.status === "open" ? "-" : formatMoney(bet.profit, currency, { signed: true })}
+                      </TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            )}
+          </CardContent>
+        </Card>
+
+        <p className="hidden print:block text-xs text-muted-foreground">
+          Generado el {new Date().toLocaleDateString()}
+        </p>
+      </div>
+    </Layout>
+  );
+};
+
+export default Report;
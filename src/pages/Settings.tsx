@@ -0,0 +1,331 @@
+import { useEffect, useState } from "react";
+import { supabase } from "@/integrations/supabase/client";
+import Layout from "@/components/Layout";
+import TaxonomyManager from "@/components/TaxonomyManager";
+import BalanceCheck from "@/components/BalanceCheck";
+import BackupManager from "@/components/BackupManager";
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from "@/components/ui/card";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Label } from "@/components/ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import { Trash2 } from "lucide-react";
+import { useToast } from "@/hooks/use-toast";
+import { useUserSettings } from "@/hooks/use-user-settings";
+import { CURRENCIES, DEFAULT_CURRENCY, ExchangeRate } from "@/lib/currency";
+import { DEFAULT_ODDS_FORMAT, ODDS_FORMATS, ODDS_FORMAT_LABELS, OddsFormat } from "@/lib/odds";
+
+const Settings = () => {
+  const { toast } = useToast();
+  const { reportingCurrency, oddsFormat, rates, loaded, refresh } = useUserSettings();
+  const [currency, setCurrency] = useState(DEFAULT_CURRENCY);
+  const [format, setFormat] = useState<OddsFormat>(DEFAULT_ODDS_FORMAT);
+  const [baseCurrency, setBaseCurrency] = useState("EUR");
+  const [quoteCurrency, setQuoteCurrency] = useState(DEFAULT_CURRENCY);
+  const [rate, setRate] = useState("");
+  const [saving, setSaving] = useState(false);
+
+  useEffect(() => {
+    setCurrency(reportingCurrency);
+  }, [reportingCurrency]);
+
+  useEffect(() => {
+    setFormat(oddsFormat);
+  }, [oddsFormat]);
+
+  const handleSaveCurrency = async () => {
+    setSaving(true);
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return;
+
+      const { error } = await supabase
+        .from("profiles")
+        .update({ reporting_currency: currency })
+        .eq("id", session.user.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Ajustes guardados",
+        description: `Los totales se mostrarán en ${currency}`,
+      });
+
+      refresh();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Error al guardar la moneda de reporte",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveOddsFormat = async () => {
+    setSaving(true);
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return;
+
+      const { error } = await supabase
+        .from("profiles")
+        .update({ odds_format: format })
+        .eq("id", session.user.id);
+
+      if (error) throw error;
+
+      toast({
+        title: "Ajustes guardados",
+        description: "Las cuotas se mostrarán en el nuevo formato",
+      });
+
+      refresh();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Error al guardar el formato de cuotas",
+      });
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const handleSaveRate = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const value = parseFloat(rate);
+    if (isNaN(value) || value <= 0) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "El tipo de cambio debe ser un número positivo",
+      });
+      return;
+    }
+
+    if (baseCurrency === quoteCurrency) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Selecciona dos monedas distintas",
+      });
+      return;
+    }
+
+    try {
+      const { data: { session } } = await supabase.auth.getSession();
+      if (!session) return;
+
+      const { error } = await supabase.from("exchange_rates").upsert(
+        {
+          user_id: session.user.id,
+          base_currency: baseCurrency,
+          quote_currency: quoteCurrency,
+          rate: value,
+        },
+        { onConflict: "user_id,base_currency,quote_currency" },
+      );
+
+      if (error) throw error;
+
+      setRate("");
+      refresh();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Error al guardar el tipo de cambio",
+      });
+    }
+  };
+
+  const handleDeleteRate = async (exchangeRate: ExchangeRate) => {
+    try {
+      const { error } = await supabase.from("exchange_rates").delete().eq("id", exchangeRate.id);
+
+      if (error) throw error;
+
+      refresh();
+    } catch (error) {
+      toast({
+        variant: "destructive",
+        title: "Error",
+        description: "Error al eliminar el tipo de cambio",
+      });
+    }
+  };
+
+  if (!loaded) {
+    return (
+      <Layout>
+        <div className="flex items-center justify-center h-screen">
+          <div className="animate-pulse text-muted-foreground">Cargando...</div>
+        </div>
+      </Layout>
+    );
+  }
+
+  return (
+    <Layout>
+      <div className="p-6 max-w-5xl mx-auto space-y-6">
+        <div>
+          <h1 className="text-3xl font-bold text-foreground">Ajustes</h1>
+          <p className="text-muted-foreground">Preferencias de tu cuenta</p>
+        </div>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Moneda de Reporte</CardTitle>
+            <CardDescription>
+              Los totales que agregan varios banks se convierten a esta moneda
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex gap-2">
+            <Select value={currency} onValueChange={setCurrency}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {CURRENCIES.map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {value}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={handleSaveCurrency} disabled={saving || currency === reportingCurrency}>
+              {saving ? "Guardando..." : "Guardar"}
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Formato de Cuotas</CardTitle>
+            <CardDescription>
+              Cómo se muestran las cuotas. Al registrar una apuesta se acepta cualquier formato
+              (2.50, 3/2 o +150) y se guarda como cuota decimal.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="flex gap-2">
+            <Select value={format} onValueChange={(value: OddsFormat) => setFormat(value)}>
+              <SelectTrigger className="w-56">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {ODDS_FORMATS.map((value) => (
+                  <SelectItem key={value} value={value}>
+                    {ODDS_FORMAT_LABELS[value]}
+                  </SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Button onClick={handleSaveOddsFormat} disabled={saving || format === oddsFormat}>
+              {saving ? "Guardando..." : "Guardar"}
+            </Button>
+          </CardContent>
+        </Card>
+
+        <Card>
+          <CardHeader>
+            <CardTitle>Tipos de Cambio</CardTitle>
+            <CardDescription>
+              1 unidad de la moneda base equivale a la tasa indicada en la moneda destino. La
+              conversión inversa se calcula automáticamente.
+            </CardDescription>
+          </CardHeader>
+          <CardContent className="space-y-4">
+            <form onSubmit={handleSaveRate} className="grid grid-cols-1 sm:grid-cols-4 gap-4 items-end">
+              <div className="space-y-2">
+                <Label htmlFor="rate-base">Base</Label>
+                <Select value={baseCurrency} onValueChange={setBaseCurrency}>
+                  <SelectTrigger id="rate-base">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CURRENCIES.map((value) => (
+                      <SelectItem key={value} value={value}>
+                        {value}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rate-quote">Destino</Label>
+                <Select value={quoteCurrency} onValueChange={setQuoteCurrency}>
+                  <SelectTrigger id="rate-quote">
+                    <SelectValue />
+                  </SelectTrigger>
+                  <SelectContent>
+                    {CURRENCIES.map((value) => (
+                      <SelectItem key={value} value={value} disabled={value === baseCurrency}>
+                        {value}
+                      </SelectItem>
+                    ))}
+                  </SelectContent>
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="rate-value">Tasa</Label>
+                <Input
+                  id="rate-value"
+                  type="number"
+                  step="0.000001"
+                  placeholder="1.08"
+                  value={rate}
+                  onChange={(e) => setRate(e.target.value)}
+                  required
+                />
+              </div>
+              <Button type="submit">Guardar Tasa</Button>
+            </form>
+
+            <div className="space-y-2 border-t pt-4">
+              {rates.length === 0 ? (
+                <p className="text-sm text-muted-foreground text-center py-4">
+                  No hay tipos de cambio registrados
+                </p>
+              ) : (
+                rates.map((exchangeRate) => (
+                  <div key={exchangeRate.id} className="flex items-center justify-between text-sm">
+                    <span>
+                      1 {exchangeRate.base_currency} = {exchangeRate.rate} {exchangeRate.quote_currency}
+                    </span>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-destructive hover:text-destructive"
+                      onClick={() => handleDeleteRate(exchangeRate)}
+                    >
+                      <Trash2 className="h-4 w-4" />
+                    </Button>
+                  </div>
+                ))
+              )}
+            </div>
+          </CardContent>
+        </Card>
+
+        <TaxonomyManager />
+
+        <BalanceCheck />
+
+        <BackupManager onRestored={refresh} />
+      </div>
+    </Layout>
+  );
+};
+
+export default Settings;
@@ -0,0 +1,39 @@
+-- Nuevos estados: anulada (se devuelve el stake) y medio ganada/perdida (hándicap asiático de cuarto)
+ALTER TYPE bet_status ADD VALUE IF NOT EXISTS 'void';
+ALTER TYPE bet_status ADD VALUE IF NOT EXISTS 'half_won';
+ALTER TYPE bet_status ADD VALUE IF NOT EXISTS 'half_lost';
+
+-- Calcular el profit de los nuevos estados
+CREATE OR REPLACE FUNCTION public.update_bank_balance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  -- Calcular profit basado en el estado
+  IF NEW.status = 'won' THEN
+    NEW.profit = NEW.amount * NEW.odds - NEW.amount;
+  ELSIF NEW.status = 'half_won' THEN
+    NEW.profit = (NEW.amount / 2) * (NEW.odds - 1);
+  ELSIF NEW.status = 'lost' THEN
+    NEW.profit = -NEW.amount;
+  ELSIF NEW.status = 'half_lost' THEN
+    NEW.profit = -NEW.amount / 2;
+  ELSE
+    -- open y void no afectan al balance
+    NEW.profit = 0;
+  END IF;
+
+  -- Actualizar balance del bank
+  UPDATE public.banks
+  SET current_balance = initial_balance + (
+    SELECT COALESCE(SUM(profit), 0)
+    FROM public.bets
+    WHERE bank_id = NEW.bank_id AND status != 'open'
+  ),
+  updated_at = NOW()
+  WHERE id = NEW.bank_id;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,53 @@
+-- Cash out: se guarda lo cobrado y, si es parcial, el stake que se liquidó
+ALTER TYPE bet_status ADD VALUE IF NOT EXISTS 'cashed_out';
+
+ALTER TABLE public.bets
+  ADD COLUMN cashout_amount DECIMAL(10,2),
+  ADD COLUMN cashout_stake DECIMAL(10,2),
+  ADD CONSTRAINT bets_cashout_amount_check CHECK (cashout_amount IS NULL OR cashout_amount >= 0),
+  ADD CONSTRAINT bets_cashout_stake_check CHECK (
+    cashout_stake IS NULL OR (cashout_stake > 0 AND cashout_stake <= amount)
+  );
+
+-- El profit tiene en cuenta lo cobrado en cash out y el stake que sigue en juego
+CREATE OR REPLACE FUNCTION public.update_bank_balance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  running_stake DECIMAL(10,2);
+  cashed_profit DECIMAL(10,2);
+BEGIN
+  running_stake = NEW.amount - COALESCE(NEW.cashout_stake, 0);
+  cashed_profit = COALESCE(NEW.cashout_amount, 0) - COALESCE(NEW.cashout_stake, 0);
+
+  -- Calcular profit basado en el estado
+  IF NEW.status = 'cashed_out' THEN
+    NEW.profit = COALESCE(NEW.cashout_amount, 0) - NEW.amount;
+  ELSIF NEW.status = 'won' THEN
+    NEW.profit = cashed_profit + running_stake * NEW.odds - running_stake;
+  ELSIF NEW.status = 'half_won' THEN
+    NEW.profit = cashed_profit + (running_stake / 2) * (NEW.odds - 1);
+  ELSIF NEW.status = 'lost' THEN
+    NEW.profit = cashed_profit - running_stake;
+  ELSIF NEW.status = 'half_lost' THEN
+    NEW.profit = cashed_profit - running_stake / 2;
+  ELSE
+    -- open y void solo cuentan lo ya cobrado en un cash out parcial
+    NEW.profit = cashed_profit;
+  END IF;
+
+  -- Actualizar balance del bank
+  UPDATE public.banks
+  SET current_balance = initial_balance + (
+    SELECT COALESCE(SUM(profit), 0)
+    FROM public.bets
+    WHERE bank_id = NEW.bank_id
+  ),
+  updated_at = NOW()
+  WHERE id = NEW.bank_id;
+
+  RETURN NEW;
+END;
+$$;
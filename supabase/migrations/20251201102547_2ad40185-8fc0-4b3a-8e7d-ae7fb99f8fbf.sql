@@ -0,0 +1,170 @@
+-- Crear tabla de selecciones (legs) de apuestas combinadas
+CREATE TABLE public.bet_legs (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  bet_id UUID NOT NULL REFERENCES public.bets(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  position INTEGER NOT NULL DEFAULT 0,
+  event TEXT NOT NULL,
+  selection TEXT NOT NULL,
+  odds DECIMAL(10,2) NOT NULL CHECK (odds >= 1),
+  status bet_status NOT NULL DEFAULT 'open' CHECK (status <> 'cashed_out'),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX bet_legs_bet_id_idx ON public.bet_legs(bet_id);
+
+-- Habilitar RLS para bet_legs
+ALTER TABLE public.bet_legs ENABLE ROW LEVEL SECURITY;
+
+-- Políticas para bet_legs
+CREATE POLICY "Users can view their own bet legs"
+  ON public.bet_legs FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own bet legs"
+  ON public.bet_legs FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own bet legs"
+  ON public.bet_legs FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own bet legs"
+  ON public.bet_legs FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_bet_legs_updated_at
+  BEFORE UPDATE ON public.bet_legs
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Multiplicador de retorno de una selección según su estado
+CREATE OR REPLACE FUNCTION public.leg_return_factor(leg_status bet_status, leg_odds DECIMAL)
+RETURNS DECIMAL
+LANGUAGE sql
+IMMUTABLE
+SET search_path = public
+AS $$
+  SELECT CASE leg_status
+    WHEN 'won' THEN leg_odds
+    WHEN 'half_won' THEN (leg_odds + 1) / 2
+    WHEN 'lost' THEN 0
+    WHEN 'half_lost' THEN 0.5
+    -- open y void no modifican el retorno
+    ELSE 1
+  END;
+$$;
+
+-- Multiplicador de retorno de una combinada: producto de sus selecciones
+CREATE OR REPLACE FUNCTION public.parlay_return_factor(p_bet_id UUID)
+RETURNS DECIMAL
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  leg RECORD;
+  factor DECIMAL := 1;
+BEGIN
+  FOR leg IN SELECT status, odds FROM public.bet_legs WHERE bet_id = p_bet_id LOOP
+    factor = factor * public.leg_return_factor(leg.status, leg.odds);
+  END LOOP;
+
+  RETURN factor;
+END;
+$$;
+
+-- Derivar estado y cuota de la combinada a partir de sus selecciones
+CREATE OR REPLACE FUNCTION public.sync_parlay_from_legs()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  target_bet_id UUID;
+  derived_status bet_status;
+  combined_odds DECIMAL;
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    target_bet_id = OLD.bet_id;
+  ELSE
+    target_bet_id = NEW.bet_id;
+  END IF;
+
+  IF NOT EXISTS (SELECT 1 FROM public.bet_legs WHERE bet_id = target_bet_id) THEN
+    RETURN NULL;
+  END IF;
+
+  -- Una selección perdida pierde la combinada; las anuladas salen de la cuota
+  SELECT
+    CASE
+      WHEN bool_or(status = 'lost') THEN 'lost'
+      WHEN bool_or(status = 'open') THEN 'open'
+      WHEN bool_and(status = 'void') THEN 'void'
+      WHEN public.parlay_return_factor(target_bet_id) >= 1 THEN 'won'
+      ELSE 'lost'
+    END::bet_status,
+    COALESCE(EXP(SUM(LN(odds)) FILTER (WHERE status <> 'void')), 1)
+  INTO derived_status, combined_odds
+  FROM public.bet_legs
+  WHERE bet_id = target_bet_id;
+
+  UPDATE public.bets
+  SET status = derived_status,
+      odds = ROUND(combined_odds, 2)
+  WHERE id = target_bet_id
+    AND status <> 'cashed_out'
+    AND (status IS DISTINCT FROM derived_status OR odds IS DISTINCT FROM ROUND(combined_odds, 2));
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER sync_parlay_on_leg_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.bet_legs
+  FOR EACH ROW EXECUTE FUNCTION public.sync_parlay_from_legs();
+
+-- El profit de una combinada se calcula con el retorno real de sus selecciones
+CREATE OR REPLACE FUNCTION public.update_bank_balance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  running_stake DECIMAL(10,2);
+  cashed_profit DECIMAL(10,2);
+BEGIN
+  running_stake = NEW.amount - COALESCE(NEW.cashout_stake, 0);
+  cashed_profit = COALESCE(NEW.cashout_amount, 0) - COALESCE(NEW.cashout_stake, 0);
+
+  -- Calcular profit basado en el estado
+  IF NEW.status = 'cashed_out' THEN
+    NEW.profit = COALESCE(NEW.cashout_amount, 0) - NEW.amount;
+  ELSIF NEW.bet_type = 'parlay' AND NEW.status IN ('won', 'lost', 'half_won', 'half_lost') THEN
+    NEW.profit = cashed_profit + running_stake * public.parlay_return_factor(NEW.id) - running_stake;
+  ELSIF NEW.status = 'won' THEN
+    NEW.profit = cashed_profit + running_stake * NEW.odds - running_stake;
+  ELSIF NEW.status = 'half_won' THEN
+    NEW.profit = cashed_profit + (running_stake / 2) * (NEW.odds - 1);
+  ELSIF NEW.status = 'lost' THEN
+    NEW.profit = cashed_profit - running_stake;
+  ELSIF NEW.status = 'half_lost' THEN
+    NEW.profit = cashed_profit - running_stake / 2;
+  ELSE
+    -- open y void solo cuentan lo ya cobrado en un cash out parcial
+    NEW.profit = cashed_profit;
+  END IF;
+
+  -- Actualizar balance del bank
+  UPDATE public.banks
+  SET current_balance = initial_balance + (
+    SELECT COALESCE(SUM(profit), 0)
+    FROM public.bets
+    WHERE bank_id = NEW.bank_id
+  ),
+  updated_at = NOW()
+  WHERE id = NEW.bank_id;
+
+  RETURN NEW;
+END;
+$$;
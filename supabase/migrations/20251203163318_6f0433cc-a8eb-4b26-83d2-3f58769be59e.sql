@@ -0,0 +1,246 @@
+-- Apuestas de sistema: tamaños de combinación (Trixie = {2,3}, Lucky 15 = {1,2,3,4}, 2/4 = {2})
+ALTER TABLE public.bets ADD COLUMN system_sizes INTEGER[];
+
+-- Crear tabla de combinaciones de una apuesta de sistema
+CREATE TABLE public.bet_combinations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  bet_id UUID NOT NULL REFERENCES public.bets(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  leg_ids UUID[] NOT NULL CHECK (cardinality(leg_ids) > 0),
+  stake DECIMAL(10,2) NOT NULL CHECK (stake > 0),
+  odds DECIMAL(10,2) NOT NULL,
+  status bet_status NOT NULL DEFAULT 'open' CHECK (status <> 'cashed_out'),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX bet_combinations_bet_id_idx ON public.bet_combinations(bet_id);
+
+-- Habilitar RLS para bet_combinations
+ALTER TABLE public.bet_combinations ENABLE ROW LEVEL SECURITY;
+
+-- Políticas para bet_combinations
+CREATE POLICY "Users can view their own bet combinations"
+  ON public.bet_combinations FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own bet combinations"
+  ON public.bet_combinations FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own bet combinations"
+  ON public.bet_combinations FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own bet combinations"
+  ON public.bet_combinations FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_bet_combinations_updated_at
+  BEFORE UPDATE ON public.bet_combinations
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Multiplicador de retorno de un conjunto de selecciones
+CREATE OR REPLACE FUNCTION public.legs_return_factor(p_leg_ids UUID[])
+RETURNS DECIMAL
+LANGUAGE plpgsql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  leg RECORD;
+  factor DECIMAL := 1;
+BEGIN
+  FOR leg IN SELECT status, odds FROM public.bet_legs WHERE id = ANY(p_leg_ids) LOOP
+    factor = factor * public.leg_return_factor(leg.status, leg.odds);
+  END LOOP;
+
+  RETURN factor;
+END;
+$$;
+
+-- Cuota de un conjunto de selecciones sin contar las anuladas
+CREATE OR REPLACE FUNCTION public.legs_combined_odds(p_leg_ids UUID[])
+RETURNS DECIMAL
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT COALESCE(EXP(SUM(LN(odds)) FILTER (WHERE status <> 'void')), 1)
+  FROM public.bet_legs
+  WHERE id = ANY(p_leg_ids);
+$$;
+
+-- Una selección perdida pierde el conjunto; si todas están anuladas, se anula
+CREATE OR REPLACE FUNCTION public.derive_legs_status(p_leg_ids UUID[])
+RETURNS bet_status
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT CASE
+    WHEN bool_or(status = 'lost') THEN 'lost'
+    WHEN bool_or(status = 'open') THEN 'open'
+    WHEN bool_and(status = 'void') THEN 'void'
+    WHEN public.legs_return_factor(p_leg_ids) >= 1 THEN 'won'
+    ELSE 'lost'
+  END::bet_status
+  FROM public.bet_legs
+  WHERE id = ANY(p_leg_ids);
+$$;
+
+CREATE OR REPLACE FUNCTION public.parlay_return_factor(p_bet_id UUID)
+RETURNS DECIMAL
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT public.legs_return_factor(ARRAY(SELECT id FROM public.bet_legs WHERE bet_id = p_bet_id));
+$$;
+
+-- Retorno total de una apuesta de sistema: cada combinación se liquida por separado
+CREATE OR REPLACE FUNCTION public.system_return(p_bet_id UUID)
+RETURNS DECIMAL
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT COALESCE(SUM(stake * public.legs_return_factor(leg_ids)), 0)
+  FROM public.bet_combinations
+  WHERE bet_id = p_bet_id;
+$$;
+
+-- Derivar estado y cuota de combinadas y sistemas a partir de sus selecciones
+CREATE OR REPLACE FUNCTION public.sync_bet_from_legs(p_bet_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  target RECORD;
+  all_leg_ids UUID[];
+  derived_status bet_status;
+  derived_odds DECIMAL;
+BEGIN
+  SELECT bet_type, amount, odds, status INTO target FROM public.bets WHERE id = p_bet_id;
+
+  IF NOT FOUND OR target.status = 'cashed_out' THEN
+    RETURN;
+  END IF;
+
+  IF target.bet_type = 'parlay' THEN
+    all_leg_ids = ARRAY(SELECT id FROM public.bet_legs WHERE bet_id = p_bet_id);
+    IF cardinality(all_leg_ids) = 0 THEN
+      RETURN;
+    END IF;
+
+    derived_status = public.derive_legs_status(all_leg_ids);
+    derived_odds = ROUND(public.legs_combined_odds(all_leg_ids), 2);
+  ELSIF target.bet_type = 'system' THEN
+    UPDATE public.bet_combinations
+    SET status = public.derive_legs_status(leg_ids),
+        odds = ROUND(public.legs_combined_odds(leg_ids), 2)
+    WHERE bet_id = p_bet_id;
+
+    IF NOT EXISTS (SELECT 1 FROM public.bet_combinations WHERE bet_id = p_bet_id) THEN
+      RETURN;
+    END IF;
+
+    SELECT
+      CASE
+        WHEN bool_or(status = 'open') THEN 'open'
+        WHEN bool_and(status = 'void') THEN 'void'
+        WHEN public.system_return(p_bet_id) >= target.amount THEN 'won'
+        ELSE 'lost'
+      END::bet_status
+    INTO derived_status
+    FROM public.bet_combinations
+    WHERE bet_id = p_bet_id;
+
+    derived_odds = target.odds;
+  ELSE
+    RETURN;
+  END IF;
+
+  -- Se actualiza siempre para que update_bank_balance recalcule el profit
+  UPDATE public.bets
+  SET status = derived_status,
+      odds = derived_odds
+  WHERE id = p_bet_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.sync_bet_on_child_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'DELETE' THEN
+    PERFORM public.sync_bet_from_legs(OLD.bet_id);
+  ELSE
+    PERFORM public.sync_bet_from_legs(NEW.bet_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS sync_parlay_on_leg_change ON public.bet_legs;
+DROP FUNCTION IF EXISTS public.sync_parlay_from_legs();
+
+CREATE TRIGGER sync_bet_on_leg_change
+  AFTER INSERT OR UPDATE OR DELETE ON public.bet_legs
+  FOR EACH ROW EXECUTE FUNCTION public.sync_bet_on_child_change();
+
+-- Las combinaciones se recalculan desde sync_bet_from_legs, así que solo se escucha alta y baja
+CREATE TRIGGER sync_bet_on_combination_change
+  AFTER INSERT OR DELETE ON public.bet_combinations
+  FOR EACH ROW EXECUTE FUNCTION public.sync_bet_on_child_change();
+
+-- El profit de un sistema es la suma de lo que devuelve cada combinación
+CREATE OR REPLACE FUNCTION public.update_bank_balance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  running_stake DECIMAL(10,2);
+  cashed_profit DECIMAL(10,2);
+BEGIN
+  running_stake = NEW.amount - COALESCE(NEW.cashout_stake, 0);
+  cashed_profit = COALESCE(NEW.cashout_amount, 0) - COALESCE(NEW.cashout_stake, 0);
+
+  -- Calcular profit basado en el estado
+  IF NEW.status = 'cashed_out' THEN
+    NEW.profit = COALESCE(NEW.cashout_amount, 0) - NEW.amount;
+  ELSIF NEW.bet_type = 'parlay' AND NEW.status <> 'open' THEN
+    NEW.profit = cashed_profit + running_stake * public.parlay_return_factor(NEW.id) - running_stake;
+  ELSIF NEW.bet_type = 'system' AND NEW.status <> 'open' THEN
+    NEW.profit = cashed_profit + (running_stake / NEW.amount) * public.system_return(NEW.id) - running_stake;
+  ELSIF NEW.status = 'won' THEN
+    NEW.profit = cashed_profit + running_stake * NEW.odds - running_stake;
+  ELSIF NEW.status = 'half_won' THEN
+    NEW.profit = cashed_profit + (running_stake / 2) * (NEW.odds - 1);
+  ELSIF NEW.status = 'lost' THEN
+    NEW.profit = cashed_profit - running_stake;
+  ELSIF NEW.status = 'half_lost' THEN
+    NEW.profit = cashed_profit - running_stake / 2;
+  ELSE
+    -- open y void solo cuentan lo ya cobrado en un cash out parcial
+    NEW.profit = cashed_profit;
+  END IF;
+
+  -- Actualizar balance del bank
+  UPDATE public.banks
+  SET current_balance = initial_balance + (
+    SELECT COALESCE(SUM(profit), 0)
+    FROM public.bets
+    WHERE bank_id = NEW.bank_id
+  ),
+  updated_at = NOW()
+  WHERE id = NEW.bank_id;
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,129 @@
+-- Crear tipo enum para movimientos de dinero en un bank
+CREATE TYPE bank_transaction_type AS ENUM ('deposit', 'withdrawal', 'bonus', 'adjustment', 'fee');
+
+-- Crear tabla de movimientos (depósitos, retiradas, bonos, ajustes y comisiones)
+-- amount es positivo salvo en los ajustes, que llevan su propio signo
+CREATE TABLE public.bank_transactions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  bank_id UUID NOT NULL REFERENCES public.banks(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  type bank_transaction_type NOT NULL,
+  amount DECIMAL(10,2) NOT NULL CHECK (amount <> 0),
+  description TEXT,
+  transaction_date DATE NOT NULL DEFAULT CURRENT_DATE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  CONSTRAINT bank_transactions_amount_sign_check CHECK (type = 'adjustment' OR amount > 0)
+);
+
+CREATE INDEX bank_transactions_bank_id_idx ON public.bank_transactions(bank_id);
+
+-- Habilitar RLS para bank_transactions
+ALTER TABLE public.bank_transactions ENABLE ROW LEVEL SECURITY;
+
+-- Políticas para bank_transactions
+CREATE POLICY "Users can view their own bank transactions"
+  ON public.bank_transactions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own bank transactions"
+  ON public.bank_transactions FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own bank transactions"
+  ON public.bank_transactions FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own bank transactions"
+  ON public.bank_transactions FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_bank_transactions_updated_at
+  BEFORE UPDATE ON public.bank_transactions
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Recalcular el balance de un bank: inicial + profit de apuestas + movimientos
+CREATE OR REPLACE FUNCTION public.recalculate_bank_balance(p_bank_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.banks
+  SET current_balance = initial_balance + (
+    SELECT COALESCE(SUM(profit), 0)
+    FROM public.bets
+    WHERE bank_id = p_bank_id
+  ) + (
+    SELECT COALESCE(SUM(
+      CASE WHEN type IN ('withdrawal', 'fee') THEN -amount ELSE amount END
+    ), 0)
+    FROM public.bank_transactions
+    WHERE bank_id = p_bank_id
+  ),
+  updated_at = NOW()
+  WHERE id = p_bank_id;
+END;
+$$;
+
+CREATE OR REPLACE FUNCTION public.update_bank_balance_on_transaction()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM public.recalculate_bank_balance(OLD.bank_id);
+  END IF;
+
+  IF TG_OP IN ('INSERT', 'UPDATE') THEN
+    PERFORM public.recalculate_bank_balance(NEW.bank_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER update_bank_balance_on_transaction
+  AFTER INSERT OR UPDATE OR DELETE ON public.bank_transactions
+  FOR EACH ROW EXECUTE FUNCTION public.update_bank_balance_on_transaction();
+
+-- Las apuestas también recalculan el balance incluyendo los movimientos
+CREATE OR REPLACE FUNCTION public.update_bank_balance()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  running_stake DECIMAL(10,2);
+  cashed_profit DECIMAL(10,2);
+BEGIN
+  running_stake = NEW.amount - COALESCE(NEW.cashout_stake, 0);
+  cashed_profit = COALESCE(NEW.cashout_amount, 0) - COALESCE(NEW.cashout_stake, 0);
+
+  -- Calcular profit basado en el estado
+  IF NEW.status = 'cashed_out' THEN
+    NEW.profit = COALESCE(NEW.cashout_amount, 0) - NEW.amount;
+  ELSIF NEW.bet_type = 'parlay' AND NEW.status <> 'open' THEN
+    NEW.profit = cashed_profit + running_stake * public.parlay_return_factor(NEW.id) - running_stake;
+  ELSIF NEW.bet_type = 'system' AND NEW.status <> 'open' THEN
+    NEW.profit = cashed_profit + (running_stake / NEW.amount) * public.system_return(NEW.id) - running_stake;
+  ELSIF NEW.status = 'won' THEN
+    NEW.profit = cashed_profit + running_stake * NEW.odds - running_stake;
+  ELSIF NEW.status = 'half_won' THEN
+    NEW.profit = cashed_profit + (running_stake / 2) * (NEW.odds - 1);
+  ELSIF NEW.status = 'lost' THEN
+    NEW.profit = cashed_profit - running_stake;
+  ELSIF NEW.status = 'half_lost' THEN
+    NEW.profit = cashed_profit - running_stake / 2;
+  ELSE
+    -- open y void solo cuentan lo ya cobrado en un cash out parcial
+    NEW.profit = cashed_profit;
+  END IF;
+
+  -- Actualizar balance del bank
+  PERFORM public.recalculate_bank_balance(NEW.bank_id);
+
+  RETURN NEW;
+END;
+$$;
@@ -0,0 +1,73 @@
+-- Transferencias entre banks: dos movimientos enlazados por transfer_id
+ALTER TYPE bank_transaction_type ADD VALUE IF NOT EXISTS 'transfer_in';
+ALTER TYPE bank_transaction_type ADD VALUE IF NOT EXISTS 'transfer_out';
+
+ALTER TABLE public.bank_transactions
+  ADD COLUMN transfer_id UUID,
+  ADD COLUMN counterparty_bank_id UUID REFERENCES public.banks(id) ON DELETE SET NULL;
+
+CREATE INDEX bank_transactions_transfer_id_idx ON public.bank_transactions(transfer_id);
+
+-- Las transferencias salientes restan del balance
+CREATE OR REPLACE FUNCTION public.recalculate_bank_balance(p_bank_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.banks
+  SET current_balance = initial_balance + (
+    SELECT COALESCE(SUM(profit), 0)
+    FROM public.bets
+    WHERE bank_id = p_bank_id
+  ) + (
+    SELECT COALESCE(SUM(
+      CASE WHEN type IN ('withdrawal', 'fee', 'transfer_out') THEN -amount ELSE amount END
+    ), 0)
+    FROM public.bank_transactions
+    WHERE bank_id = p_bank_id
+  ),
+  updated_at = NOW()
+  WHERE id = p_bank_id;
+END;
+$$;
+
+-- Crear los dos lados de una transferencia en una sola transacción
+CREATE OR REPLACE FUNCTION public.transfer_between_banks(
+  p_from_bank_id UUID,
+  p_to_bank_id UUID,
+  p_amount DECIMAL,
+  p_transaction_date DATE DEFAULT CURRENT_DATE,
+  p_description TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  new_transfer_id UUID := gen_random_uuid();
+BEGIN
+  IF p_from_bank_id = p_to_bank_id THEN
+    RAISE EXCEPTION 'El bank de origen y de destino deben ser distintos';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 THEN
+    RAISE EXCEPTION 'El importe debe ser un número positivo';
+  END IF;
+
+  IF (
+    SELECT COUNT(*) FROM public.banks
+    WHERE id IN (p_from_bank_id, p_to_bank_id) AND user_id = auth.uid()
+  ) <> 2 THEN
+    RAISE EXCEPTION 'Bank no encontrado';
+  END IF;
+
+  INSERT INTO public.bank_transactions
+    (bank_id, user_id, type, amount, description, transaction_date, transfer_id, counterparty_bank_id)
+  VALUES
+    (p_from_bank_id, auth.uid(), 'transfer_out', p_amount, p_description, p_transaction_date, new_transfer_id, p_to_bank_id),
+    (p_to_bank_id, auth.uid(), 'transfer_in', p_amount, p_description, p_transaction_date, new_transfer_id, p_from_bank_id);
+
+  RETURN new_transfer_id;
+END;
+$$;
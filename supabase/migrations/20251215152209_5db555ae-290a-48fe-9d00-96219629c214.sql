@@ -0,0 +1,86 @@
+-- Moneda de cada bank y moneda de reporte del usuario (códigos ISO 4217)
+ALTER TABLE public.banks
+  ADD COLUMN currency TEXT NOT NULL DEFAULT 'USD' CHECK (currency ~ '^[A-Z]{3}$');
+
+ALTER TABLE public.profiles
+  ADD COLUMN reporting_currency TEXT NOT NULL DEFAULT 'USD' CHECK (reporting_currency ~ '^[A-Z]{3}$');
+
+-- Crear tabla de tipos de cambio mantenidos por el usuario: 1 base_currency = rate quote_currency
+CREATE TABLE public.exchange_rates (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  base_currency TEXT NOT NULL CHECK (base_currency ~ '^[A-Z]{3}$'),
+  quote_currency TEXT NOT NULL CHECK (quote_currency ~ '^[A-Z]{3}$'),
+  rate DECIMAL(18,8) NOT NULL CHECK (rate > 0),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, base_currency, quote_currency),
+  CHECK (base_currency <> quote_currency)
+);
+
+-- Habilitar RLS para exchange_rates
+ALTER TABLE public.exchange_rates ENABLE ROW LEVEL SECURITY;
+
+-- Políticas para exchange_rates
+CREATE POLICY "Users can view their own exchange rates"
+  ON public.exchange_rates FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own exchange rates"
+  ON public.exchange_rates FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own exchange rates"
+  ON public.exchange_rates FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own exchange rates"
+  ON public.exchange_rates FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_exchange_rates_updated_at
+  BEFORE UPDATE ON public.exchange_rates
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Transferencias entre banks de distinta moneda: p_to_amount es lo recibido en la moneda de destino
+DROP FUNCTION IF EXISTS public.transfer_between_banks(UUID, UUID, DECIMAL, DATE, TEXT);
+
+CREATE OR REPLACE FUNCTION public.transfer_between_banks(
+  p_from_bank_id UUID,
+  p_to_bank_id UUID,
+  p_amount DECIMAL,
+  p_transaction_date DATE DEFAULT CURRENT_DATE,
+  p_description TEXT DEFAULT NULL,
+  p_to_amount DECIMAL DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  new_transfer_id UUID := gen_random_uuid();
+BEGIN
+  IF p_from_bank_id = p_to_bank_id THEN
+    RAISE EXCEPTION 'El bank de origen y de destino deben ser distintos';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 OR (p_to_amount IS NOT NULL AND p_to_amount <= 0) THEN
+    RAISE EXCEPTION 'El importe debe ser un número positivo';
+  END IF;
+
+  IF (
+    SELECT COUNT(*) FROM public.banks
+    WHERE id IN (p_from_bank_id, p_to_bank_id) AND user_id = auth.uid()
+  ) <> 2 THEN
+    RAISE EXCEPTION 'Bank no encontrado';
+  END IF;
+
+  INSERT INTO public.bank_transactions
+    (bank_id, user_id, type, amount, description, transaction_date, transfer_id, counterparty_bank_id)
+  VALUES
+    (p_from_bank_id, auth.uid(), 'transfer_out', p_amount, p_description, p_transaction_date, new_transfer_id, p_to_bank_id),
+    (p_to_bank_id, auth.uid(), 'transfer_in', COALESCE(p_to_amount, p_amount), p_description, p_transaction_date, new_transfer_id, p_from_bank_id);
+
+  RETURN new_transfer_id;
+END;
+$$;
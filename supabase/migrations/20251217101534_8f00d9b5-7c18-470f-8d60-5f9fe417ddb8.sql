@@ -0,0 +1,109 @@
+-- Crear tablas de taxonomía editables por el usuario: deportes, competiciones y mercados
+CREATE TABLE public.sports (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (btrim(name) <> ''),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, name)
+);
+
+CREATE TABLE public.competitions (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  sport_id UUID NOT NULL REFERENCES public.sports(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (btrim(name) <> ''),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, sport_id, name)
+);
+
+CREATE TABLE public.market_types (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (btrim(name) <> ''),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, name)
+);
+
+CREATE INDEX competitions_sport_id_idx ON public.competitions(sport_id);
+
+-- Habilitar RLS para las tablas de taxonomía
+ALTER TABLE public.sports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.competitions ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.market_types ENABLE ROW LEVEL SECURITY;
+
+-- Políticas para sports
+CREATE POLICY "Users can view their own sports"
+  ON public.sports FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own sports"
+  ON public.sports FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own sports"
+  ON public.sports FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own sports"
+  ON public.sports FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Políticas para competitions
+CREATE POLICY "Users can view their own competitions"
+  ON public.competitions FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own competitions"
+  ON public.competitions FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own competitions"
+  ON public.competitions FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own competitions"
+  ON public.competitions FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Políticas para market_types
+CREATE POLICY "Users can view their own market types"
+  ON public.market_types FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own market types"
+  ON public.market_types FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own market types"
+  ON public.market_types FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own market types"
+  ON public.market_types FOR DELETE
+  USING (auth.uid() = user_id);
+
+CREATE TRIGGER update_sports_updated_at
+  BEFORE UPDATE ON public.sports
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_competitions_updated_at
+  BEFORE UPDATE ON public.competitions
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+CREATE TRIGGER update_market_types_updated_at
+  BEFORE UPDATE ON public.market_types
+  FOR EACH ROW EXECUTE FUNCTION public.update_updated_at_column();
+
+-- Campos estructurados en las apuestas; borrar una categoría no borra las apuestas
+ALTER TABLE public.bets
+  ADD COLUMN sport_id UUID REFERENCES public.sports(id) ON DELETE SET NULL,
+  ADD COLUMN competition_id UUID REFERENCES public.competitions(id) ON DELETE SET NULL,
+  ADD COLUMN market_type_id UUID REFERENCES public.market_types(id) ON DELETE SET NULL,
+  ADD COLUMN selection TEXT;
+
+CREATE INDEX bets_sport_id_idx ON public.bets(sport_id);
+CREATE INDEX bets_competition_id_idx ON public.bets(competition_id);
+CREATE INDEX bets_market_type_id_idx ON public.bets(market_type_id);
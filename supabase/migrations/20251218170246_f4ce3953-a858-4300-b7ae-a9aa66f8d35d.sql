@@ -0,0 +1,53 @@
+-- Crear tabla de etiquetas libres del usuario
+CREATE TABLE public.tags (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  name TEXT NOT NULL CHECK (btrim(name) <> ''),
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  UNIQUE (user_id, name)
+);
+
+-- Crear tabla intermedia apuestas <-> etiquetas
+CREATE TABLE public.bet_tags (
+  bet_id UUID NOT NULL REFERENCES public.bets(id) ON DELETE CASCADE,
+  tag_id UUID NOT NULL REFERENCES public.tags(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW(),
+  PRIMARY KEY (bet_id, tag_id)
+);
+
+CREATE INDEX bet_tags_tag_id_idx ON public.bet_tags(tag_id);
+
+-- Habilitar RLS para tags y bet_tags
+ALTER TABLE public.tags ENABLE ROW LEVEL SECURITY;
+ALTER TABLE public.bet_tags ENABLE ROW LEVEL SECURITY;
+
+-- Políticas para tags
+CREATE POLICY "Users can view their own tags"
+  ON public.tags FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own tags"
+  ON public.tags FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can update their own tags"
+  ON public.tags FOR UPDATE
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own tags"
+  ON public.tags FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Políticas para bet_tags
+CREATE POLICY "Users can view their own bet tags"
+  ON public.bet_tags FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own bet tags"
+  ON public.bet_tags FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own bet tags"
+  ON public.bet_tags FOR DELETE
+  USING (auth.uid() = user_id);
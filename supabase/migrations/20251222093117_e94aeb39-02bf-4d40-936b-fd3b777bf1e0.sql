@@ -0,0 +1,27 @@
+-- update_bank_balance solo recalcula NEW.bank_id: al mover una apuesta de bank
+-- hay que recalcular también el bank de origen, y el de destino ya con la fila movida
+CREATE OR REPLACE FUNCTION public.recalculate_banks_on_bet_move()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  -- La política RLS de bets no impide apuntar a un bank ajeno
+  IF NOT EXISTS (
+    SELECT 1 FROM public.banks WHERE id = NEW.bank_id AND user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'Bank no encontrado';
+  END IF;
+
+  PERFORM public.recalculate_bank_balance(OLD.bank_id);
+  PERFORM public.recalculate_bank_balance(NEW.bank_id);
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER recalculate_banks_on_bet_move
+  AFTER UPDATE OF bank_id ON public.bets
+  FOR EACH ROW
+  WHEN (OLD.bank_id IS DISTINCT FROM NEW.bank_id)
+  EXECUTE FUNCTION public.recalculate_banks_on_bet_move();
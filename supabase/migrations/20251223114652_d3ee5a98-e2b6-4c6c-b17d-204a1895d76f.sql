@@ -0,0 +1,17 @@
+-- update_bank_balance es un trigger BEFORE INSERT OR UPDATE: al borrar una apuesta
+-- el balance del bank se quedaba con su beneficio
+CREATE OR REPLACE FUNCTION public.recalculate_bank_on_bet_delete()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  PERFORM public.recalculate_bank_balance(OLD.bank_id);
+
+  RETURN NULL;
+END;
+$$;
+
+CREATE TRIGGER recalculate_bank_on_bet_delete
+  AFTER DELETE ON public.bets
+  FOR EACH ROW EXECUTE FUNCTION public.recalculate_bank_on_bet_delete();
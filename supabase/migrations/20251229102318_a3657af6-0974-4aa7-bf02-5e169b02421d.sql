@@ -0,0 +1,169 @@
+-- El balance se recalculaba desde el trigger BEFORE de bets, cuando la tabla aún no
+-- contenía los valores nuevos de la fila, así que siempre iba una liquidación por detrás.
+-- Ahora el trigger BEFORE solo calcula el profit y el balance se mantiene en un trigger AFTER.
+
+-- Balance de un bank a partir de su histórico: inicial + profit de apuestas + movimientos
+CREATE OR REPLACE FUNCTION public.compute_bank_balance(p_bank_id UUID)
+RETURNS DECIMAL
+LANGUAGE sql
+STABLE
+SECURITY DEFINER SET search_path = public
+AS $$
+  SELECT initial_balance + (
+    SELECT COALESCE(SUM(profit), 0)
+    FROM public.bets
+    WHERE bank_id = p_bank_id
+  ) + (
+    SELECT COALESCE(SUM(
+      CASE WHEN type IN ('withdrawal', 'fee', 'transfer_out') THEN -amount ELSE amount END
+    ), 0)
+    FROM public.bank_transactions
+    WHERE bank_id = p_bank_id
+  )
+  FROM public.banks
+  WHERE id = p_bank_id;
+$$;
+
+CREATE OR REPLACE FUNCTION public.recalculate_bank_balance(p_bank_id UUID)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  UPDATE public.banks
+  SET current_balance = public.compute_bank_balance(p_bank_id),
+  updated_at = NOW()
+  WHERE id = p_bank_id;
+END;
+$$;
+
+-- Calcular el profit de la apuesta (sin tocar el balance del bank)
+CREATE OR REPLACE FUNCTION public.calculate_bet_profit()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  running_stake DECIMAL(10,2);
+  cashed_profit DECIMAL(10,2);
+BEGIN
+  running_stake = NEW.amount - COALESCE(NEW.cashout_stake, 0);
+  cashed_profit = COALESCE(NEW.cashout_amount, 0) - COALESCE(NEW.cashout_stake, 0);
+
+  IF NEW.status = 'cashed_out' THEN
+    NEW.profit = COALESCE(NEW.cashout_amount, 0) - NEW.amount;
+  ELSIF NEW.bet_type = 'parlay' AND NEW.status <> 'open' THEN
+    NEW.profit = cashed_profit + running_stake * public.parlay_return_factor(NEW.id) - running_stake;
+  ELSIF NEW.bet_type = 'system' AND NEW.status <> 'open' THEN
+    NEW.profit = cashed_profit + (running_stake / NEW.amount) * public.system_return(NEW.id) - running_stake;
+  ELSIF NEW.status = 'won' THEN
+    NEW.profit = cashed_profit + running_stake * NEW.odds - running_stake;
+  ELSIF NEW.status = 'half_won' THEN
+    NEW.profit = cashed_profit + (running_stake / 2) * (NEW.odds - 1);
+  ELSIF NEW.status = 'lost' THEN
+    NEW.profit = cashed_profit - running_stake;
+  ELSIF NEW.status = 'half_lost' THEN
+    NEW.profit = cashed_profit - running_stake / 2;
+  ELSE
+    -- open y void solo cuentan lo ya cobrado en un cash out parcial
+    NEW.profit = cashed_profit;
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS update_bet_profit ON public.bets;
+DROP FUNCTION IF EXISTS public.update_bank_balance();
+
+CREATE TRIGGER update_bet_profit
+  BEFORE INSERT OR UPDATE ON public.bets
+  FOR EACH ROW EXECUTE FUNCTION public.calculate_bet_profit();
+
+-- Mantener el balance con la fila ya escrita: alta, cambio, baja y cambio de bank
+CREATE OR REPLACE FUNCTION public.update_bank_balance_on_bet()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+    AND OLD.bank_id = NEW.bank_id
+    AND OLD.profit IS NOT DISTINCT FROM NEW.profit THEN
+    RETURN NULL;
+  END IF;
+
+  -- La política RLS de bets no impide apuntar a un bank ajeno
+  IF TG_OP IN ('INSERT', 'UPDATE') AND NOT EXISTS (
+    SELECT 1 FROM public.banks WHERE id = NEW.bank_id AND user_id = NEW.user_id
+  ) THEN
+    RAISE EXCEPTION 'Bank no encontrado';
+  END IF;
+
+  IF TG_OP IN ('UPDATE', 'DELETE') THEN
+    PERFORM public.recalculate_bank_balance(OLD.bank_id);
+  END IF;
+
+  IF TG_OP = 'INSERT' OR (TG_OP = 'UPDATE' AND OLD.bank_id <> NEW.bank_id) THEN
+    PERFORM public.recalculate_bank_balance(NEW.bank_id);
+  END IF;
+
+  RETURN NULL;
+END;
+$$;
+
+DROP TRIGGER IF EXISTS recalculate_banks_on_bet_move ON public.bets;
+DROP FUNCTION IF EXISTS public.recalculate_banks_on_bet_move();
+DROP TRIGGER IF EXISTS recalculate_bank_on_bet_delete ON public.bets;
+DROP FUNCTION IF EXISTS public.recalculate_bank_on_bet_delete();
+
+CREATE TRIGGER update_bank_balance_on_bet
+  AFTER INSERT OR UPDATE OR DELETE ON public.bets
+  FOR EACH ROW EXECUTE FUNCTION public.update_bank_balance_on_bet();
+
+-- Recalcular todos los banks desde cero y devolver los que estaban descuadrados.
+-- Desde la app solo afecta a los banks del usuario; sin sesión (SQL) revisa todos.
+CREATE OR REPLACE FUNCTION public.reconcile_bank_balances()
+RETURNS TABLE (
+  bank_id UUID,
+  bank_name TEXT,
+  currency TEXT,
+  stored_balance DECIMAL,
+  computed_balance DECIMAL,
+  difference DECIMAL
+)
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  bank RECORD;
+  expected DECIMAL;
+BEGIN
+  FOR bank IN
+    SELECT id, name, banks.currency, current_balance
+    FROM public.banks
+    WHERE auth.uid() IS NULL OR user_id = auth.uid()
+    ORDER BY name
+  LOOP
+    expected = public.compute_bank_balance(bank.id);
+
+    IF expected IS DISTINCT FROM bank.current_balance THEN
+      UPDATE public.banks
+      SET current_balance = expected,
+      updated_at = NOW()
+      WHERE id = bank.id;
+
+      bank_id = bank.id;
+      bank_name = bank.name;
+      currency = bank.currency;
+      stored_balance = bank.current_balance;
+      computed_balance = expected;
+      difference = expected - bank.current_balance;
+      RETURN NEXT;
+    END IF;
+  END LOOP;
+END;
+$$;
+
+-- Corregir los balances que se quedaron desfasados con el trigger anterior
+SELECT public.reconcile_bank_balances();
@@ -0,0 +1,83 @@
+-- Crear tabla de conciliaciones: cada vez que se compara el balance registrado con el
+-- que muestra la casa de apuestas. La diferencia se asienta como un movimiento de ajuste.
+CREATE TABLE public.bank_reconciliations (
+  id UUID PRIMARY KEY DEFAULT gen_random_uuid(),
+  bank_id UUID NOT NULL REFERENCES public.banks(id) ON DELETE CASCADE,
+  user_id UUID NOT NULL REFERENCES public.profiles(id) ON DELETE CASCADE,
+  tracked_balance DECIMAL(10,2) NOT NULL,
+  real_balance DECIMAL(10,2) NOT NULL,
+  difference DECIMAL(10,2) NOT NULL,
+  reason TEXT,
+  transaction_id UUID REFERENCES public.bank_transactions(id) ON DELETE SET NULL,
+  created_at TIMESTAMPTZ NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX bank_reconciliations_bank_id_idx ON public.bank_reconciliations(bank_id);
+
+-- Habilitar RLS para bank_reconciliations
+ALTER TABLE public.bank_reconciliations ENABLE ROW LEVEL SECURITY;
+
+-- Políticas para bank_reconciliations (el historial no se edita)
+CREATE POLICY "Users can view their own bank reconciliations"
+  ON public.bank_reconciliations FOR SELECT
+  USING (auth.uid() = user_id);
+
+CREATE POLICY "Users can create their own bank reconciliations"
+  ON public.bank_reconciliations FOR INSERT
+  WITH CHECK (auth.uid() = user_id);
+
+CREATE POLICY "Users can delete their own bank reconciliations"
+  ON public.bank_reconciliations FOR DELETE
+  USING (auth.uid() = user_id);
+
+-- Conciliar un bank con su balance real: registra la conciliación y, si hay
+-- diferencia, el ajuste que la corrige, todo en una sola transacción
+CREATE OR REPLACE FUNCTION public.reconcile_bank(
+  p_bank_id UUID,
+  p_real_balance DECIMAL,
+  p_reason TEXT DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  tracked DECIMAL(10,2);
+  drift DECIMAL(10,2);
+  adjustment_id UUID;
+  new_reconciliation_id UUID;
+BEGIN
+  IF p_real_balance IS NULL THEN
+    RAISE EXCEPTION 'Indica el balance real del bank';
+  END IF;
+
+  SELECT current_balance INTO tracked
+  FROM public.banks
+  WHERE id = p_bank_id AND user_id = auth.uid()
+  FOR UPDATE;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Bank no encontrado';
+  END IF;
+
+  drift = p_real_balance - tracked;
+
+  IF drift <> 0 THEN
+    IF NULLIF(TRIM(p_reason), '') IS NULL THEN
+      RAISE EXCEPTION 'Indica el motivo del ajuste';
+    END IF;
+
+    INSERT INTO public.bank_transactions (bank_id, user_id, type, amount, description)
+    VALUES (p_bank_id, auth.uid(), 'adjustment', drift, TRIM(p_reason))
+    RETURNING id INTO adjustment_id;
+  END IF;
+
+  INSERT INTO public.bank_reconciliations
+    (bank_id, user_id, tracked_balance, real_balance, difference, reason, transaction_id)
+  VALUES
+    (p_bank_id, auth.uid(), tracked, p_real_balance, drift, NULLIF(TRIM(p_reason), ''), adjustment_id)
+  RETURNING id INTO new_reconciliation_id;
+
+  RETURN new_reconciliation_id;
+END;
+$$;
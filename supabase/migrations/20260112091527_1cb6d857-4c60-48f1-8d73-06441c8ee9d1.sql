@@ -0,0 +1,4 @@
+-- Archivar banks en lugar de borrarlos: el borrado en cascada elimina todas sus apuestas.
+-- Un bank archivado deja de ofrecerse para apostar pero su histórico sigue en los análisis.
+ALTER TABLE public.banks
+  ADD COLUMN archived_at TIMESTAMPTZ;
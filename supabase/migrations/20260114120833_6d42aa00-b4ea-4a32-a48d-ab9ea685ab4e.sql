@@ -0,0 +1,23 @@
+-- Añadir notas libres a los banks
+ALTER TABLE public.banks
+  ADD COLUMN notes TEXT;
+
+-- Al corregir el balance inicial, el balance actual se desplaza en la misma cantidad
+-- para seguir siendo inicial + apuestas + movimientos
+CREATE OR REPLACE FUNCTION public.shift_bank_balance_on_initial_change()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  NEW.current_balance = OLD.current_balance + (NEW.initial_balance - OLD.initial_balance);
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER shift_bank_balance_on_initial_change
+  BEFORE UPDATE OF initial_balance ON public.banks
+  FOR EACH ROW
+  WHEN (OLD.initial_balance IS DISTINCT FROM NEW.initial_balance)
+  EXECUTE FUNCTION public.shift_bank_balance_on_initial_change();
@@ -0,0 +1,204 @@
+-- Restaurar una copia de seguridad (JSON generado desde Ajustes) en una sola transacción.
+-- Todas las filas reciben ids nuevos; las referencias entre ellas se traducen con una tabla
+-- temporal de correspondencias. Con p_replace se borran antes los datos actuales; si no,
+-- la copia se añade a ellos y deportes, competiciones, mercados y etiquetas se fusionan por nombre.
+CREATE OR REPLACE FUNCTION public.restore_backup(p_backup JSONB, p_replace BOOLEAN DEFAULT false)
+RETURNS VOID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  item RECORD;
+  new_id UUID;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sesión no válida';
+  END IF;
+
+  IF jsonb_typeof(p_backup->'version') IS DISTINCT FROM 'number' OR (p_backup->>'version')::INTEGER <> 1 THEN
+    RAISE EXCEPTION 'Versión de copia de seguridad no soportada';
+  END IF;
+
+  IF p_replace THEN
+    -- Borrar los banks elimina en cascada apuestas, selecciones, movimientos y conciliaciones
+    DELETE FROM public.banks WHERE user_id = auth.uid();
+    DELETE FROM public.sports WHERE user_id = auth.uid();
+    DELETE FROM public.market_types WHERE user_id = auth.uid();
+    DELETE FROM public.tags WHERE user_id = auth.uid();
+    DELETE FROM public.exchange_rates WHERE user_id = auth.uid();
+
+    UPDATE public.profiles
+    SET reporting_currency = COALESCE(p_backup->'profile'->>'reporting_currency', reporting_currency)
+    WHERE id = auth.uid();
+  END IF;
+
+  DROP TABLE IF EXISTS restore_id_map;
+  CREATE TEMP TABLE restore_id_map (
+    old_id UUID PRIMARY KEY,
+    new_id UUID NOT NULL
+  ) ON COMMIT DROP;
+
+  -- Taxonomía y etiquetas: si ya existe una con el mismo nombre se reutiliza
+  FOR item IN
+    SELECT * FROM jsonb_to_recordset(COALESCE(p_backup->'sports', '[]')) AS x(id UUID, name TEXT)
+  LOOP
+    INSERT INTO public.sports (user_id, name)
+    VALUES (auth.uid(), item.name)
+    ON CONFLICT (user_id, name) DO UPDATE SET name = EXCLUDED.name
+    RETURNING id INTO new_id;
+
+    INSERT INTO restore_id_map VALUES (item.id, new_id);
+  END LOOP;
+
+  FOR item IN
+    SELECT * FROM jsonb_to_recordset(COALESCE(p_backup->'competitions', '[]')) AS x(id UUID, sport_id UUID, name TEXT)
+  LOOP
+    INSERT INTO public.competitions (user_id, sport_id, name)
+    VALUES (auth.uid(), (SELECT m.new_id FROM restore_id_map m WHERE m.old_id = item.sport_id), item.name)
+    ON CONFLICT (user_id, sport_id, name) DO UPDATE SET name = EXCLUDED.name
+    RETURNING id INTO new_id;
+
+    INSERT INTO restore_id_map VALUES (item.id, new_id);
+  END LOOP;
+
+  FOR item IN
+    SELECT * FROM jsonb_to_recordset(COALESCE(p_backup->'market_types', '[]')) AS x(id UUID, name TEXT)
+  LOOP
+    INSERT INTO public.market_types (user_id, name)
+    VALUES (auth.uid(), item.name)
+    ON CONFLICT (user_id, name) DO UPDATE SET name = EXCLUDED.name
+    RETURNING id INTO new_id;
+
+    INSERT INTO restore_id_map VALUES (item.id, new_id);
+  END LOOP;
+
+  FOR item IN
+    SELECT * FROM jsonb_to_recordset(COALESCE(p_backup->'tags', '[]')) AS x(id UUID, name TEXT)
+  LOOP
+    INSERT INTO public.tags (user_id, name)
+    VALUES (auth.uid(), item.name)
+    ON CONFLICT (user_id, name) DO UPDATE SET name = EXCLUDED.name
+    RETURNING id INTO new_id;
+
+    INSERT INTO restore_id_map VALUES (item.id, new_id);
+  END LOOP;
+
+  -- Banks, apuestas, selecciones, combinaciones y movimientos siempre se crean de nuevo
+  INSERT INTO restore_id_map
+  SELECT (x->>'id')::UUID, gen_random_uuid()
+  FROM jsonb_array_elements(
+    COALESCE(p_backup->'banks', '[]') || COALESCE(p_backup->'bets', '[]') ||
+    COALESCE(p_backup->'bet_legs', '[]') || COALESCE(p_backup->'bet_combinations', '[]') ||
+    COALESCE(p_backup->'bank_transactions', '[]') || COALESCE(p_backup->'bank_reconciliations', '[]')
+  ) AS x;
+
+  -- Los dos lados de una transferencia comparten transfer_id
+  INSERT INTO restore_id_map
+  SELECT DISTINCT (x->>'transfer_id')::UUID, gen_random_uuid()
+  FROM jsonb_array_elements(COALESCE(p_backup->'bank_transactions', '[]')) AS x
+  WHERE x->>'transfer_id' IS NOT NULL;
+
+  -- El balance actual lo recalculan los triggers de apuestas y movimientos
+  INSERT INTO public.banks (id, user_id, name, initial_balance, current_balance, currency, notes, archived_at, created_at)
+  SELECT m.new_id, auth.uid(), x.name, x.initial_balance, x.initial_balance, x.currency, x.notes, x.archived_at, COALESCE(x.created_at, NOW())
+  FROM jsonb_to_recordset(COALESCE(p_backup->'banks', '[]')) AS x(
+    id UUID, name TEXT, initial_balance DECIMAL, currency TEXT, notes TEXT, archived_at TIMESTAMPTZ, created_at TIMESTAMPTZ
+  )
+  JOIN restore_id_map m ON m.old_id = x.id;
+
+  -- Las combinadas y sistemas derivan estado y cuota al insertar sus selecciones
+  INSERT INTO public.bets (
+    id, user_id, bank_id, bet_date, bet_type, status, amount, odds, cashout_amount, cashout_stake,
+    system_sizes, description, selection, sport_id, competition_id, market_type_id, created_at
+  )
+  SELECT
+    m.new_id, auth.uid(),
+    (SELECT b.new_id FROM restore_id_map b WHERE b.old_id = x.bank_id),
+    x.bet_date, x.bet_type, x.status, x.amount, x.odds, x.cashout_amount, x.cashout_stake,
+    x.system_sizes, x.description, x.selection,
+    (SELECT s.new_id FROM restore_id_map s WHERE s.old_id = x.sport_id),
+    (SELECT c.new_id FROM restore_id_map c WHERE c.old_id = x.competition_id),
+    (SELECT t.new_id FROM restore_id_map t WHERE t.old_id = x.market_type_id),
+    COALESCE(x.created_at, NOW())
+  FROM jsonb_to_recordset(COALESCE(p_backup->'bets', '[]')) AS x(
+    id UUID, bank_id UUID, bet_date DATE, bet_type TEXT, status bet_status, amount DECIMAL, odds DECIMAL,
+    cashout_amount DECIMAL, cashout_stake DECIMAL, system_sizes INTEGER[], description TEXT, selection TEXT,
+    sport_id UUID, competition_id UUID, market_type_id UUID, created_at TIMESTAMPTZ
+  )
+  JOIN restore_id_map m ON m.old_id = x.id
+  ORDER BY x.created_at;
+
+  INSERT INTO public.bet_legs (id, user_id, bet_id, event, selection, odds, status, position, created_at)
+  SELECT
+    m.new_id, auth.uid(),
+    (SELECT b.new_id FROM restore_id_map b WHERE b.old_id = x.bet_id),
+    x.event, x.selection, x.odds, x.status, x.position, COALESCE(x.created_at, NOW())
+  FROM jsonb_to_recordset(COALESCE(p_backup->'bet_legs', '[]')) AS x(
+    id UUID, bet_id UUID, event TEXT, selection TEXT, odds DECIMAL, status bet_status, position INTEGER, created_at TIMESTAMPTZ
+  )
+  JOIN restore_id_map m ON m.old_id = x.id
+  ORDER BY x.bet_id, x.position;
+
+  INSERT INTO public.bet_combinations (id, user_id, bet_id, leg_ids, stake, odds, status, created_at)
+  SELECT
+    m.new_id, auth.uid(),
+    (SELECT b.new_id FROM restore_id_map b WHERE b.old_id = x.bet_id),
+    ARRAY(
+      SELECT l.new_id
+      FROM unnest(x.leg_ids) WITH ORDINALITY AS u(old_id, n)
+      JOIN restore_id_map l ON l.old_id = u.old_id
+      ORDER BY u.n
+    ),
+    x.stake, x.odds, x.status, COALESCE(x.created_at, NOW())
+  FROM jsonb_to_recordset(COALESCE(p_backup->'bet_combinations', '[]')) AS x(
+    id UUID, bet_id UUID, leg_ids UUID[], stake DECIMAL, odds DECIMAL, status bet_status, created_at TIMESTAMPTZ
+  )
+  JOIN restore_id_map m ON m.old_id = x.id;
+
+  INSERT INTO public.bet_tags (user_id, bet_id, tag_id, created_at)
+  SELECT auth.uid(), b.new_id, t.new_id, COALESCE(x.created_at, NOW())
+  FROM jsonb_to_recordset(COALESCE(p_backup->'bet_tags', '[]')) AS x(bet_id UUID, tag_id UUID, created_at TIMESTAMPTZ)
+  JOIN restore_id_map b ON b.old_id = x.bet_id
+  JOIN restore_id_map t ON t.old_id = x.tag_id
+  ON CONFLICT DO NOTHING;
+
+  INSERT INTO public.bank_transactions (
+    id, user_id, bank_id, type, amount, description, transaction_date, transfer_id, counterparty_bank_id, created_at
+  )
+  SELECT
+    m.new_id, auth.uid(),
+    (SELECT b.new_id FROM restore_id_map b WHERE b.old_id = x.bank_id),
+    x.type, x.amount, x.description, x.transaction_date,
+    (SELECT t.new_id FROM restore_id_map t WHERE t.old_id = x.transfer_id),
+    (SELECT c.new_id FROM restore_id_map c WHERE c.old_id = x.counterparty_bank_id),
+    COALESCE(x.created_at, NOW())
+  FROM jsonb_to_recordset(COALESCE(p_backup->'bank_transactions', '[]')) AS x(
+    id UUID, bank_id UUID, type bank_transaction_type, amount DECIMAL, description TEXT, transaction_date DATE,
+    transfer_id UUID, counterparty_bank_id UUID, created_at TIMESTAMPTZ
+  )
+  JOIN restore_id_map m ON m.old_id = x.id;
+
+  INSERT INTO public.bank_reconciliations (
+    id, user_id, bank_id, tracked_balance, real_balance, difference, reason, transaction_id, created_at
+  )
+  SELECT
+    m.new_id, auth.uid(),
+    (SELECT b.new_id FROM restore_id_map b WHERE b.old_id = x.bank_id),
+    x.tracked_balance, x.real_balance, x.difference, x.reason,
+    (SELECT t.new_id FROM restore_id_map t WHERE t.old_id = x.transaction_id),
+    COALESCE(x.created_at, NOW())
+  FROM jsonb_to_recordset(COALESCE(p_backup->'bank_reconciliations', '[]')) AS x(
+    id UUID, bank_id UUID, tracked_balance DECIMAL, real_balance DECIMAL, difference DECIMAL, reason TEXT,
+    transaction_id UUID, created_at TIMESTAMPTZ
+  )
+  JOIN restore_id_map m ON m.old_id = x.id;
+
+  -- Al fusionar se conserva el tipo de cambio actual de cada par
+  INSERT INTO public.exchange_rates (user_id, base_currency, quote_currency, rate)
+  SELECT auth.uid(), x.base_currency, x.quote_currency, x.rate
+  FROM jsonb_to_recordset(COALESCE(p_backup->'exchange_rates', '[]')) AS x(
+    base_currency TEXT, quote_currency TEXT, rate DECIMAL
+  )
+  ON CONFLICT (user_id, base_currency, quote_currency) DO NOTHING;
+END;
+$$;
@@ -0,0 +1,3 @@
+-- Formato en que el usuario lee y escribe las cuotas. En bets.odds se guardan siempre decimales.
+ALTER TABLE public.profiles
+  ADD COLUMN odds_format TEXT NOT NULL DEFAULT 'decimal' CHECK (odds_format IN ('decimal', 'fractional', 'american'));
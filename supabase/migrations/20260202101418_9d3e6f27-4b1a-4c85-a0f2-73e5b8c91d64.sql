@@ -0,0 +1,60 @@
+-- reconcile_bank_balances() es SECURITY DEFINER y, sin sesión, revisaba los banks de todos los
+-- usuarios: cualquiera con la clave anónima podía recalcularlos y leer sus nombres y balances.
+-- Ahora exige sesión, solo mira los banks del usuario y solo corrige los balances si se le pide;
+-- sin p_fix se limita a informar de los descuadres.
+DROP FUNCTION IF EXISTS public.reconcile_bank_balances();
+
+CREATE OR REPLACE FUNCTION public.reconcile_bank_balances(p_fix BOOLEAN DEFAULT false)
+RETURNS TABLE (
+  bank_id UUID,
+  bank_name TEXT,
+  currency TEXT,
+  stored_balance DECIMAL,
+  computed_balance DECIMAL,
+  difference DECIMAL
+)
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  bank RECORD;
+  expected DECIMAL;
+BEGIN
+  IF auth.uid() IS NULL THEN
+    RAISE EXCEPTION 'Sesión no válida';
+  END IF;
+
+  FOR bank IN
+    SELECT id, name, banks.currency, current_balance
+    FROM public.banks
+    WHERE user_id = auth.uid()
+    ORDER BY name
+  LOOP
+    expected = public.compute_bank_balance(bank.id);
+
+    IF expected IS DISTINCT FROM bank.current_balance THEN
+      IF p_fix THEN
+        UPDATE public.banks
+        SET current_balance = expected,
+        updated_at = NOW()
+        WHERE id = bank.id;
+      END IF;
+
+      bank_id = bank.id;
+      bank_name = bank.name;
+      currency = bank.currency;
+      stored_balance = bank.current_balance;
+      computed_balance = expected;
+      difference = expected - bank.current_balance;
+      RETURN NEXT;
+    END IF;
+  END LOOP;
+END;
+$$;
+
+REVOKE EXECUTE ON FUNCTION public.reconcile_bank_balances(BOOLEAN) FROM PUBLIC, anon;
+
+-- Reciben cualquier id de bank y no comprueban el usuario: solo las usan los triggers y otras
+-- funciones SECURITY DEFINER, nunca la app
+REVOKE EXECUTE ON FUNCTION public.compute_bank_balance(UUID) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION public.recalculate_bank_balance(UUID) FROM PUBLIC, anon, authenticated;
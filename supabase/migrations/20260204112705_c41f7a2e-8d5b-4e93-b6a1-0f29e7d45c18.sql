@@ -0,0 +1,47 @@
+-- Entre banks de distinta moneda el importe recibido es obligatorio: sin él se abonaba p_amount
+-- en la moneda de destino sin convertir. Hasta ahora solo lo impedía el formulario.
+CREATE OR REPLACE FUNCTION public.transfer_between_banks(
+  p_from_bank_id UUID,
+  p_to_bank_id UUID,
+  p_amount DECIMAL,
+  p_transaction_date DATE DEFAULT CURRENT_DATE,
+  p_description TEXT DEFAULT NULL,
+  p_to_amount DECIMAL DEFAULT NULL
+)
+RETURNS UUID
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  new_transfer_id UUID := gen_random_uuid();
+BEGIN
+  IF p_from_bank_id = p_to_bank_id THEN
+    RAISE EXCEPTION 'El bank de origen y de destino deben ser distintos';
+  END IF;
+
+  IF p_amount IS NULL OR p_amount <= 0 OR (p_to_amount IS NOT NULL AND p_to_amount <= 0) THEN
+    RAISE EXCEPTION 'El importe debe ser un número positivo';
+  END IF;
+
+  IF (
+    SELECT COUNT(*) FROM public.banks
+    WHERE id IN (p_from_bank_id, p_to_bank_id) AND user_id = auth.uid()
+  ) <> 2 THEN
+    RAISE EXCEPTION 'Bank no encontrado';
+  END IF;
+
+  IF p_to_amount IS NULL AND (
+    SELECT COUNT(DISTINCT currency) FROM public.banks WHERE id IN (p_from_bank_id, p_to_bank_id)
+  ) > 1 THEN
+    RAISE EXCEPTION 'Indica el importe recibido en la moneda del bank de destino';
+  END IF;
+
+  INSERT INTO public.bank_transactions
+    (bank_id, user_id, type, amount, description, transaction_date, transfer_id, counterparty_bank_id)
+  VALUES
+    (p_from_bank_id, auth.uid(), 'transfer_out', p_amount, p_description, p_transaction_date, new_transfer_id, p_to_bank_id),
+    (p_to_bank_id, auth.uid(), 'transfer_in', COALESCE(p_to_amount, p_amount), p_description, p_transaction_date, new_transfer_id, p_from_bank_id);
+
+  RETURN new_transfer_id;
+END;
+$$;
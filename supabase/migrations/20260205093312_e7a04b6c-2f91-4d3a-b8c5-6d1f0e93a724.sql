@@ -0,0 +1,88 @@
+-- Coherencia de la taxonomía: cada competición cuelga de un deporte del mismo usuario y las
+-- apuestas solo apuntan a categorías propias, con la competición dentro del deporte elegido
+
+-- Limpiar las referencias incoherentes de las apuestas antes de activar las comprobaciones
+UPDATE public.bets b
+SET competition_id = NULL
+WHERE b.competition_id IS NOT NULL
+  AND NOT EXISTS (
+    SELECT 1 FROM public.competitions c
+    WHERE c.id = b.competition_id
+      AND c.user_id = b.user_id
+      AND (b.sport_id IS NULL OR c.sport_id = b.sport_id)
+  );
+
+UPDATE public.bets b
+SET sport_id = NULL
+WHERE b.sport_id IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM public.sports s WHERE s.id = b.sport_id AND s.user_id = b.user_id);
+
+UPDATE public.bets b
+SET market_type_id = NULL
+WHERE b.market_type_id IS NOT NULL
+  AND NOT EXISTS (SELECT 1 FROM public.market_types m WHERE m.id = b.market_type_id AND m.user_id = b.user_id);
+
+CREATE OR REPLACE FUNCTION public.check_competition_sport()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM public.sports WHERE id = NEW.sport_id AND user_id = NEW.user_id) THEN
+    RAISE EXCEPTION 'El deporte de la competición no pertenece al usuario';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_competition_sport
+  BEFORE INSERT OR UPDATE OF sport_id, user_id ON public.competitions
+  FOR EACH ROW EXECUTE FUNCTION public.check_competition_sport();
+
+-- Solo se comprueban los valores que cambian: al borrar una categoría, las claves ajenas
+-- ponen a NULL sus referencias una a una y el estado intermedio no debe bloquear el borrado
+CREATE OR REPLACE FUNCTION public.check_bet_taxonomy()
+RETURNS TRIGGER
+LANGUAGE plpgsql
+SECURITY DEFINER SET search_path = public
+AS $$
+DECLARE
+  v_is_insert BOOLEAN := TG_OP = 'INSERT';
+BEGIN
+  IF NEW.sport_id IS NOT NULL
+    AND (v_is_insert OR NEW.sport_id IS DISTINCT FROM OLD.sport_id OR NEW.user_id IS DISTINCT FROM OLD.user_id)
+    AND NOT EXISTS (SELECT 1 FROM public.sports WHERE id = NEW.sport_id AND user_id = NEW.user_id)
+  THEN
+    RAISE EXCEPTION 'El deporte no pertenece al usuario';
+  END IF;
+
+  IF NEW.competition_id IS NOT NULL
+    AND (v_is_insert
+      OR NEW.competition_id IS DISTINCT FROM OLD.competition_id
+      OR (NEW.sport_id IS NOT NULL AND NEW.sport_id IS DISTINCT FROM OLD.sport_id)
+      OR NEW.user_id IS DISTINCT FROM OLD.user_id)
+    AND NOT EXISTS (
+      SELECT 1 FROM public.competitions
+      WHERE id = NEW.competition_id
+        AND user_id = NEW.user_id
+        AND (NEW.sport_id IS NULL OR sport_id = NEW.sport_id)
+    )
+  THEN
+    RAISE EXCEPTION 'La competición no pertenece al deporte de la apuesta';
+  END IF;
+
+  IF NEW.market_type_id IS NOT NULL
+    AND (v_is_insert OR NEW.market_type_id IS DISTINCT FROM OLD.market_type_id OR NEW.user_id IS DISTINCT FROM OLD.user_id)
+    AND NOT EXISTS (SELECT 1 FROM public.market_types WHERE id = NEW.market_type_id AND user_id = NEW.user_id)
+  THEN
+    RAISE EXCEPTION 'El mercado no pertenece al usuario';
+  END IF;
+
+  RETURN NEW;
+END;
+$$;
+
+CREATE TRIGGER check_bet_taxonomy
+  BEFORE INSERT OR UPDATE OF sport_id, competition_id, market_type_id, user_id ON public.bets
+  FOR EACH ROW EXECUTE FUNCTION public.check_bet_taxonomy();